@@ -0,0 +1,24 @@
+/**
+ * Generate the JSON Schema for LoggingConfig and the built-in plugin configs
+ * and write it next to the build output.
+ *
+ * Like the other scripts it imports the TypeScript sources directly, so it needs a
+ * Node.js version that strips types by default (22.18+, or the devEngines version).
+ */
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import fs from 'fs-extra';
+
+import { LogM8 } from '../src/LogM8.ts';
+
+const SCHEMA_FILE = 'logging-config.schema.json';
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const distDir = path.join(rootDir, 'dist');
+
+const schema = new LogM8().getConfigSchema();
+
+await fs.mkdir(distDir, { recursive: true });
+fs.writeFileSync(path.join(distDir, SCHEMA_FILE), `${JSON.stringify(schema, null, 2)}\n`, 'utf8');
+console.log(`Config schema written to dist/${SCHEMA_FILE}`);
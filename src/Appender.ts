@@ -88,16 +88,19 @@ export interface Appender extends Plugin {
    *
    * Called during appender shutdown or when explicitly requested via
    * LogM8.flushAppender(). Implementations should ensure data persistence.
+   * Appenders with asynchronous output return a Promise that resolves once
+   * all previously written events have been written out.
    */
-  flush(): void;
+  flush(): void | Promise<void>;
 
   /**
    * Disposes of the appender and releases any resources.
    *
    * Called during LogM8.dispose() to clean up the appender's resources.
-   * Implementations should ensure all buffered events are flushed before disposal.
+   * Implementations should ensure all buffered events are flushed before disposal,
+   * returning a Promise when that completes asynchronously.
    */
-  dispose(): void;
+  dispose(): void | Promise<void>;
 
   /**
    * Enables the specified filter for this appender.
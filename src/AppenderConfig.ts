@@ -1,5 +1,6 @@
 import type { FilterConfig } from './FilterConfig.ts';
 import type { FormatterConfig } from './FormatterConfig.ts';
+import type { LogLevelType } from './LogLevel.ts';
 import type { PluginConfig } from './PluginConfig.ts';
 
 /**
@@ -16,6 +17,29 @@ export interface AppenderConfig extends PluginConfig {
    */
   priority?: number;
 
+  /**
+   * Minimum severity written by this appender, e.g. 'error' to only write fatal and
+   * error events. Applied on top of the logger levels. Can be changed at runtime
+   * with LogM8.setAppenderLevel().
+   */
+  level?: string | LogLevelType;
+
+  /**
+   * Explicit set of levels written by this appender, e.g. ['error', 'track'].
+   * When combined with `level`, an event must satisfy both.
+   */
+  levels?: (string | LogLevelType)[];
+
+  /**
+   * Logger name patterns routed to this appender; defaults to all loggers.
+   *
+   * `*` matches any characters and a trailing `.*` also matches the parent logger,
+   * so 'audit.*' covers 'audit' and everything below it. Prefix a pattern with `!`
+   * to exclude loggers, e.g. ['app.db.*', '!app.db.noisy']. Patterns are compiled
+   * once at init and the result is cached per logger name.
+   */
+  loggers?: string[];
+
   /**
    * The formatter to apply to log events, specified by name or config object.
    */
@@ -0,0 +1,36 @@
+/**
+ * Configuration of the buffer holding events logged before LogM8.init().
+ *
+ * Events logged before initialization are kept in memory and delivered to the
+ * configured appenders as soon as init() completes. When more events are logged than
+ * fit, the overflow policy decides which ones are discarded, and a single warning
+ * event on the 'logm8' logger reports how many were lost when the buffer is flushed.
+ *
+ * @example
+ * ```typescript
+ * // Default singleton: configure before anything is logged
+ * Logging.configureBuffer({ size: 1000, overflow: 'keep-first' });
+ *
+ * // Own instances
+ * const logging = new LogM8({ buffer: { size: 0 } }); // No buffering
+ * ```
+ */
+export interface BufferConfig {
+  /**
+   * Maximum number of buffered events. Defaults to 100.
+   */
+  size?: number;
+
+  /**
+   * What to discard when the buffer is full. Defaults to 'drop-oldest'.
+   */
+  overflow?: BufferOverflowPolicy;
+}
+
+/**
+ * Overflow policies of BufferConfig.overflow:
+ * - 'drop-oldest': discard the oldest buffered event; keeps the most recent events
+ * - 'drop-newest': discard the newest event, i.e. the one being logged; keeps the first events
+ * - 'keep-first': same as 'drop-newest'
+ */
+export type BufferOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'keep-first';
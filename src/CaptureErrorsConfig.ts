@@ -0,0 +1,46 @@
+import type { LogLevelType } from './LogLevel.ts';
+
+/**
+ * Configuration for capturing uncaught exceptions and unhandled promise rejections
+ * as log events, enabled via LoggingConfig.captureErrors.
+ *
+ * Each captured failure is logged through the configured logger with the message
+ * 'Uncaught exception' or 'Unhandled rejection' and the thrown value (usually an
+ * Error) as the first data item, so formatters can serialize its cause chain.
+ *
+ * - Node.js: observes 'uncaughtExceptionMonitor', which reports both uncaught
+ *   exceptions and (in the default `--unhandled-rejections=throw` mode) unhandled
+ *   rejections without changing how the process reacts to them. Combine with
+ *   LoggingConfig.shutdown to flush appenders before the process exits.
+ *   Node only reports a rejection to the monitor when it is about to crash the
+ *   process, so rejections are not captured when the application has its own
+ *   'unhandledRejection' listener or runs with `--unhandled-rejections=warn` or
+ *   `none`; log them from that listener instead. LogM8 does not add an
+ *   'unhandledRejection' listener itself, as doing so would stop the crash.
+ * - Browser: listens for window 'error' and 'unhandledrejection' events.
+ *
+ * Listeners are removed again by LogM8.dispose() or a subsequent LogM8.init().
+ *
+ * @example
+ * ```typescript
+ * Logging.init({
+ *   captureErrors: { logger: 'app.crash', rejectionLevel: 'fatal' },
+ * });
+ * ```
+ */
+export interface CaptureErrorsConfig {
+  /**
+   * Name of the logger used for captured failures. Defaults to 'uncaught'.
+   */
+  logger?: string;
+
+  /**
+   * Level for uncaught exceptions. Defaults to 'fatal'.
+   */
+  exceptionLevel?: string | LogLevelType;
+
+  /**
+   * Level for unhandled promise rejections. Defaults to 'error'.
+   */
+  rejectionLevel?: string | LogLevelType;
+}
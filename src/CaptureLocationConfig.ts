@@ -0,0 +1,29 @@
+import type { LogLevelType } from './LogLevel.ts';
+
+/**
+ * Configuration for capturing the caller location of log events, enabled via
+ * LoggingConfig.captureLocation.
+ *
+ * Capturing parses a stack trace for every matching event, so restrict it to the
+ * loggers and levels where the call site is worth the cost. Events that do not
+ * match, and all events when capture is disabled, skip the stack trace entirely.
+ *
+ * @example
+ * ```typescript
+ * Logging.init({
+ *   captureLocation: { loggers: ['app.db'], levels: ['error', 'warn'] },
+ * });
+ * ```
+ */
+export interface CaptureLocationConfig {
+  /**
+   * Logger names for which locations are captured, including their descendants
+   * ('app.db' also matches 'app.db.queries'). Defaults to all loggers.
+   */
+  loggers?: string[];
+
+  /**
+   * Levels for which locations are captured. Defaults to all levels.
+   */
+  levels?: (string | LogLevelType)[];
+}
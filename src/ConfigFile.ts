@@ -0,0 +1,65 @@
+import { type FSWatcher, readFileSync, watch } from 'fs';
+import { basename, dirname, extname } from 'path';
+
+import type { ConfigParser } from './ConfigFileOptions.ts';
+
+const DEFAULT_DEBOUNCE = 100;
+
+/**
+ * Reads and parses a configuration file.
+ *
+ * @param path - Path of the configuration file
+ * @param parser - Parser for the contents; defaults to JSON.parse
+ * @returns The parsed, not yet validated, configuration
+ * @throws {Error} When the file cannot be read or parsed
+ */
+function readConfigFile(path: string, parser?: ConfigParser): unknown {
+  const ext = extname(path).toLowerCase();
+  if (!parser && (ext === '.yaml' || ext === '.yml')) {
+    throw new Error(`LogM8: No parser configured for YAML config file '${path}'.`);
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf8');
+  } catch (err) {
+    throw new Error(`LogM8: Failed to read config file '${path}': ${(err as Error).message}`);
+  }
+
+  try {
+    return parser ? parser(content, path) : JSON.parse(content);
+  } catch (err) {
+    throw new Error(`LogM8: Failed to parse config file '${path}': ${(err as Error).message}`);
+  }
+}
+
+/**
+ * Watches a configuration file for changes.
+ *
+ * The containing directory is watched rather than the file itself, so editors that
+ * save by replacing the file keep triggering changes. Bursts of events are coalesced.
+ *
+ * @param path - Path of the configuration file
+ * @param onChange - Called once per burst of changes to the file
+ * @param debounce - Delay in milliseconds used to coalesce change events
+ * @returns Function that stops watching
+ */
+function watchConfigFile(path: string, onChange: () => void, debounce?: number): () => void {
+  const name = basename(path);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const watcher: FSWatcher = watch(dirname(path), (_event, filename) => {
+    if (filename && filename.toString() !== name) return;
+    clearTimeout(timer);
+    timer = setTimeout(onChange, debounce ?? DEFAULT_DEBOUNCE);
+  });
+  // Watching must never keep the process alive
+  watcher.unref();
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
+
+export { readConfigFile, watchConfigFile };
@@ -0,0 +1,38 @@
+/**
+ * Parses the contents of a configuration file into a LoggingConfig object.
+ *
+ * @param content - File contents as UTF-8 text
+ * @param filename - Path of the file being parsed
+ * @returns The parsed configuration (validated by LogM8 afterwards)
+ */
+export type ConfigParser = (content: string, filename: string) => unknown;
+
+/**
+ * Options for LogM8.initFromFile() (Node.js only).
+ *
+ * @example
+ * ```typescript
+ * import { parse } from 'yaml';
+ *
+ * Logging.initFromFile('logging.yaml', { watch: true, parser: parse });
+ * ```
+ */
+export interface ConfigFileOptions {
+  /**
+   * Re-apply the configuration whenever the file changes. Invalid edits are reported
+   * and the last good configuration stays active. Defaults to false.
+   */
+  watch?: boolean;
+
+  /**
+   * Parser for the file contents. Defaults to JSON.parse; required for other
+   * formats such as YAML.
+   */
+  parser?: ConfigParser;
+
+  /**
+   * Delay in milliseconds used to coalesce the bursts of change events editors
+   * produce when saving. Defaults to 100.
+   */
+  debounce?: number;
+}
@@ -0,0 +1,77 @@
+/**
+ * Schema describing configuration options, used to validate LoggingConfig and
+ * plugin configs at runtime.
+ *
+ * A subset of JSON Schema: plugin factories can contribute a schema for their own
+ * options via PluginFactory.schema, which is merged with the common options of the
+ * plugin kind (name, formatter, filters, ...).
+ *
+ * @example
+ * ```typescript
+ * class SlackAppenderFactory implements PluginFactory {
+ *   name = 'slack';
+ *   kind = PluginKind.appender;
+ *   schema: ConfigSchema = {
+ *     type: 'object',
+ *     required: ['webhookUrl'],
+ *     properties: {
+ *       webhookUrl: { type: 'string', description: 'Incoming webhook URL' },
+ *       channel: { type: 'string' },
+ *     },
+ *   };
+ *   // ...
+ * }
+ * ```
+ */
+export interface ConfigSchema {
+  /**
+   * Allowed JSON type or types of the value.
+   */
+  type?: ConfigSchemaType | ConfigSchemaType[];
+
+  /**
+   * Allowed values.
+   */
+  enum?: unknown[];
+
+  /**
+   * Schemas of known object properties.
+   */
+  properties?: Record<string, ConfigSchema>;
+
+  /**
+   * Object properties that must be present.
+   */
+  required?: string[];
+
+  /**
+   * Whether properties not listed in `properties` are allowed, or the schema they
+   * must match. Defaults to true.
+   */
+  additionalProperties?: boolean | ConfigSchema;
+
+  /**
+   * Schema of every array item.
+   */
+  items?: ConfigSchema;
+
+  /**
+   * The value must match at least one of these schemas.
+   */
+  anyOf?: ConfigSchema[];
+
+  /**
+   * Minimum value of a number.
+   */
+  minimum?: number;
+
+  /**
+   * Human readable description of the option.
+   */
+  description?: string;
+}
+
+/**
+ * JSON types supported by ConfigSchema.type.
+ */
+export type ConfigSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
@@ -0,0 +1,480 @@
+import type { ConfigSchema, ConfigSchemaType } from './ConfigSchema.ts';
+import { LogLevel } from './LogLevel.ts';
+import type { PluginFactory } from './PluginFactory.ts';
+import { PluginKind, type PluginKindType } from './PluginKind.ts';
+import type { PluginManager } from './PluginManager.ts';
+
+/**
+ * A single problem found by LogM8.validateConfig().
+ */
+export interface ConfigProblem {
+  /**
+   * JSON path of the offending value, e.g. '$.appenders[0].formatter'.
+   */
+  path: string;
+
+  /**
+   * Description of the problem.
+   */
+  message: string;
+}
+
+// Schemas with this enum also accept the custom levels declared in the config
+const LEVEL_NAMES: string[] = Object.values(LogLevel);
+const LEVEL_SCHEMA: ConfigSchema = { type: 'string', enum: LEVEL_NAMES };
+const LEVELS_SCHEMA: ConfigSchema = { type: 'array', items: LEVEL_SCHEMA };
+const STRINGS_SCHEMA: ConfigSchema = { type: 'array', items: { type: 'string' } };
+const PLUGIN_REF_SCHEMA: ConfigSchema = { type: ['string', 'object'] };
+
+const optionalObject = (
+  description: string,
+  properties: Record<string, ConfigSchema>,
+): ConfigSchema => ({
+  description,
+  anyOf: [{ type: 'boolean' }, { type: 'object', properties, additionalProperties: false }],
+});
+
+/**
+ * Schema of LoggingConfig. Plugin entries (appenders, filters and appender formatters
+ * and filters) are validated separately against the schema of their plugin kind.
+ */
+const LOGGING_CONFIG_SCHEMA: ConfigSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string', description: 'JSON Schema of this file, for editor support' },
+    level: { ...LEVEL_SCHEMA, description: "Default level of all loggers ('info')" },
+    customLevels: {
+      type: 'array',
+      description: 'Additional levels, each placed above or below an existing level',
+      items: {
+        type: 'object',
+        required: ['name'],
+        additionalProperties: false,
+        properties: {
+          name: { type: 'string' },
+          above: LEVEL_SCHEMA,
+          below: LEVEL_SCHEMA,
+          console: { type: 'string', enum: ['error', 'warn', 'info', 'debug', 'log'] },
+          color: { type: 'string' },
+          css: { type: 'string' },
+        },
+      },
+    },
+    loggers: {
+      type: 'object',
+      description: 'Per-logger levels or LoggerConfig objects, keyed by logger name',
+      additionalProperties: {
+        anyOf: [
+          LEVEL_SCHEMA,
+          {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              level: LEVEL_SCHEMA,
+              appenders: STRINGS_SCHEMA,
+              additive: { type: 'boolean' },
+            },
+          },
+        ],
+      },
+    },
+    appenders: {
+      type: 'array',
+      items: PLUGIN_REF_SCHEMA,
+      description: 'Output destinations (console with the default formatter if omitted)',
+    },
+    filters: { type: 'array', items: PLUGIN_REF_SCHEMA, description: 'Global filters' },
+    interpolate: { type: 'boolean', description: 'Render printf-style and named placeholders' },
+    captureLocation: optionalObject('Capture the caller file, line and function', {
+      loggers: STRINGS_SCHEMA,
+      levels: LEVELS_SCHEMA,
+    }),
+    captureErrors: optionalObject('Log uncaught exceptions and unhandled rejections', {
+      logger: { type: 'string' },
+      exceptionLevel: LEVEL_SCHEMA,
+      rejectionLevel: LEVEL_SCHEMA,
+    }),
+    captureConsole: optionalObject('Route global console calls into a logger', {
+      logger: { type: 'string' },
+      levels: {
+        type: 'object',
+        additionalProperties: false,
+        properties: Object.fromEntries(
+          ['error', 'warn', 'info', 'log', 'debug', 'trace'].map((m) => [m, LEVEL_SCHEMA]),
+        ),
+      },
+    }),
+    shutdown: optionalObject('Flush appenders on process shutdown (Node.js only)', {
+      logger: { type: 'string' },
+      events: {
+        type: 'array',
+        items: { type: 'string', enum: ['beforeExit', 'SIGINT', 'SIGTERM', 'uncaughtException'] },
+      },
+      timeout: { type: 'number', minimum: 0 },
+    }),
+    env: optionalObject('Apply level overrides from environment variables', {
+      prefix: { type: 'string' },
+      debug: { anyOf: [{ type: 'string' }, { enum: [false] }] },
+      source: { type: 'object', additionalProperties: { type: 'string' } },
+    }),
+    diagnostics: {
+      type: 'object',
+      additionalProperties: false,
+      description: 'How internal failures are reported',
+      properties: {
+        mode: { type: 'string', enum: ['quiet', 'normal', 'verbose'] },
+        logger: { type: ['boolean', 'string'] },
+      },
+    },
+    validation: {
+      type: 'string',
+      enum: ['strict', 'lenient', 'off'],
+      description: "How configuration problems are handled ('lenient')",
+    },
+  },
+};
+
+/**
+ * Common options of every plugin kind, merged with PluginFactory.schema.
+ */
+const PLUGIN_CONFIG_SCHEMAS: Record<PluginKindType, ConfigSchema> = {
+  [PluginKind.appender]: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      name: { type: 'string' },
+      enabled: { type: 'boolean' },
+      priority: { type: 'number' },
+      level: LEVEL_SCHEMA,
+      levels: LEVELS_SCHEMA,
+      loggers: STRINGS_SCHEMA,
+      formatter: PLUGIN_REF_SCHEMA,
+      filters: { type: 'array', items: PLUGIN_REF_SCHEMA },
+    },
+  },
+  [PluginKind.formatter]: {
+    type: 'object',
+    required: ['name'],
+    properties: { name: { type: 'string' } },
+  },
+  [PluginKind.filter]: {
+    type: 'object',
+    required: ['name'],
+    properties: { name: { type: 'string' }, enabled: { type: 'boolean' } },
+  },
+};
+
+/**
+ * Validates LoggingConfig objects, including the configs of the plugins they reference.
+ *
+ * Reports every problem with its JSON path instead of stopping at the first one.
+ * Plugin configs are checked against the common options of their kind merged with the
+ * factory's own schema; configs of factories without a schema accept any extra option.
+ */
+class ConfigValidator {
+  private _pluginManager: PluginManager;
+  // Custom levels declared by the config being validated
+  private _customLevels: string[] = [];
+
+  constructor(pluginManager: PluginManager) {
+    this._pluginManager = pluginManager;
+  }
+
+  /**
+   * Validates a complete LoggingConfig.
+   *
+   * @param config - Configuration to validate
+   * @returns Problems found, empty when the configuration is valid
+   */
+  public validate(config: unknown): ConfigProblem[] {
+    const problems: ConfigProblem[] = [];
+    const customLevels = isObject(config) ? config.customLevels : undefined;
+    this._customLevels = Array.isArray(customLevels)
+      ? customLevels.flatMap((l) => (isObject(l) && typeof l.name === 'string' ? [l.name] : []))
+      : [];
+    this._validateValue(config, LOGGING_CONFIG_SCHEMA, '$', problems);
+    if (!isObject(config)) return problems;
+
+    const { appenders, filters } = config;
+    if (Array.isArray(appenders)) {
+      appenders.forEach((appender, i) => {
+        this._validatePlugin(appender, PluginKind.appender, `$.appenders[${i}]`, problems);
+      });
+    }
+    if (Array.isArray(filters)) {
+      filters.forEach((filter, i) => {
+        this._validatePlugin(filter, PluginKind.filter, `$.filters[${i}]`, problems);
+      });
+    }
+    return problems;
+  }
+
+  /**
+   * Generates a JSON Schema (draft-07) document for LoggingConfig.
+   *
+   * Appender, formatter and filter entries are described per registered factory, using
+   * the factory's schema, so the document covers third-party plugins registered before
+   * it is generated.
+   *
+   * @param customLevels - Names of custom levels to accept besides the built-in levels
+   * @returns The JSON Schema document
+   */
+  public toJsonSchema(customLevels: string[] = []): Record<string, unknown> {
+    // Definition references only exist in the generated document, not in ConfigSchema
+    const ref = (kind: PluginKindType) => ({ $ref: `#/definitions/${kind}` }) as ConfigSchema;
+    const properties = { ...LOGGING_CONFIG_SCHEMA.properties };
+    properties.appenders = { ...properties.appenders, items: ref(PluginKind.appender) };
+    properties.filters = { ...properties.filters, items: ref(PluginKind.filter) };
+
+    const definitions: Record<string, ConfigSchema> = {};
+    for (const kind of Object.values(PluginKind)) {
+      const factories = this._pluginManager.getPluginFactories(kind);
+      definitions[kind] = {
+        anyOf: [
+          { type: 'string', enum: factories.map((f) => f.name) },
+          ...factories.map((factory) => {
+            const schema = this._pluginSchema(kind, factory);
+            const pluginProperties: Record<string, ConfigSchema> = {
+              ...schema.properties,
+              name: { type: 'string', enum: [factory.name] },
+            };
+            if (kind === PluginKind.appender) {
+              pluginProperties.formatter = ref(PluginKind.formatter);
+              pluginProperties.filters = { type: 'array', items: ref(PluginKind.filter) };
+            }
+            return { ...schema, properties: pluginProperties };
+          }),
+        ],
+      };
+    }
+
+    const levels = (schema: ConfigSchema) => withLevelPatterns(schema, customLevels);
+    return {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      title: 'log-m8 LoggingConfig',
+      ...LOGGING_CONFIG_SCHEMA,
+      properties: mapValues(properties, levels),
+      definitions: mapValues(definitions, levels),
+    };
+  }
+
+  /**
+   * Formats problems as an indented list, one `path: message` per line.
+   */
+  public static formatProblems(problems: ConfigProblem[]): string {
+    return problems.map((p) => `  ${p.path}: ${p.message}`).join('\n');
+  }
+
+  private _validatePlugin(
+    value: unknown,
+    kind: PluginKindType,
+    path: string,
+    problems: ConfigProblem[],
+  ): void {
+    const name = typeof value === 'string' ? value : isObject(value) ? value.name : undefined;
+    if (typeof name !== 'string') {
+      // The shape is reported by the enclosing schema or the kind schema below
+      if (isObject(value)) this._validateValue(value, PLUGIN_CONFIG_SCHEMAS[kind], path, problems);
+      return;
+    }
+
+    const factory = this._pluginManager.getPluginFactory(name, kind);
+    if (!factory) {
+      const namePath = typeof value === 'string' ? path : `${path}.name`;
+      problems.push({
+        path: namePath,
+        message: `no ${kind} factory named '${name}' is registered`,
+      });
+    }
+    if (!isObject(value)) return;
+
+    this._validateValue(value, this._pluginSchema(kind, factory), path, problems);
+
+    if (kind === PluginKind.appender) {
+      if (value.formatter !== undefined) {
+        this._validatePlugin(value.formatter, PluginKind.formatter, `${path}.formatter`, problems);
+      }
+      if (Array.isArray(value.filters)) {
+        value.filters.forEach((filter, i) => {
+          this._validatePlugin(filter, PluginKind.filter, `${path}.filters[${i}]`, problems);
+        });
+      }
+    }
+  }
+
+  private _pluginSchema(kind: PluginKindType, factory: PluginFactory | undefined): ConfigSchema {
+    const base = PLUGIN_CONFIG_SCHEMAS[kind];
+    if (!factory?.schema) return base;
+
+    // Factories with a schema declare all of their options, so unknown ones are typos
+    return {
+      ...base,
+      properties: { ...base.properties, ...factory.schema.properties },
+      required: [...(base.required ?? []), ...(factory.schema.required ?? [])],
+      additionalProperties: factory.schema.additionalProperties ?? false,
+    };
+  }
+
+  private _validateValue(
+    value: unknown,
+    schema: ConfigSchema,
+    path: string,
+    problems: ConfigProblem[],
+  ): void {
+    if (value === undefined) return;
+
+    if (schema.anyOf) {
+      const results = schema.anyOf.map((option) => {
+        const optionProblems: ConfigProblem[] = [];
+        this._validateValue(value, option, path, optionProblems);
+        return { option, optionProblems };
+      });
+      if (results.some((r) => r.optionProblems.length === 0)) return;
+
+      // Report the details of the alternative with the matching type, if there is one
+      const typed = results.find((r) => r.option.type && matchesType(value, r.option.type));
+      if (typed) {
+        problems.push(...typed.optionProblems);
+      } else {
+        problems.push({ path, message: `must be ${describeSchemas(schema.anyOf)}` });
+      }
+      return;
+    }
+
+    if (schema.type && !matchesType(value, schema.type)) {
+      problems.push({ path, message: `must be ${describeSchemas([schema])}` });
+      return;
+    }
+
+    // Level names are matched like at runtime: case-insensitively, ignoring whitespace
+    const isLevel = schema.enum === LEVEL_NAMES;
+    const allowedValues = isLevel ? [...LEVEL_NAMES, ...this._customLevels] : schema.enum;
+    const normalized = isLevel && typeof value === 'string' ? value.trim().toLowerCase() : value;
+    if (allowedValues && !allowedValues.includes(normalized)) {
+      const allowed = allowedValues.map((v) => JSON.stringify(v)).join(', ');
+      problems.push({ path, message: `must be one of ${allowed}, got ${JSON.stringify(value)}` });
+      return;
+    }
+
+    if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+      problems.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      const items = schema.items;
+      value.forEach((item, i) => this._validateValue(item, items, `${path}[${i}]`, problems));
+    }
+
+    if (isObject(value)) {
+      const properties = schema.properties ?? {};
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined) {
+          problems.push({ path, message: `missing required property '${key}'` });
+        }
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const itemPath = joinPath(path, key);
+        const propertySchema = properties[key];
+        if (propertySchema) {
+          this._validateValue(item, propertySchema, itemPath, problems);
+        } else if (schema.additionalProperties === false) {
+          const suggestion = closestMatch(key, Object.keys(properties));
+          problems.push({
+            path: itemPath,
+            message: `unknown property '${key}'${suggestion ? ` (did you mean '${suggestion}'?)` : ''}`,
+          });
+        } else if (isObject(schema.additionalProperties)) {
+          this._validateValue(item, schema.additionalProperties, itemPath, problems);
+        }
+      }
+    }
+  }
+}
+
+function withLevelPatterns(schema: ConfigSchema, customLevels: string[]): ConfigSchema {
+  // Copy the schema, accepting the built-in and custom levels in any case wherever a level is
+  // expected, like the validator and the runtime. The enum keeps editor completions.
+  if (schema.enum === LEVEL_NAMES) {
+    const { enum: _levels, ...rest } = schema;
+    const names = [...LEVEL_NAMES, ...customLevels];
+    return { ...rest, anyOf: [{ enum: names }, { pattern: levelPattern(names) } as ConfigSchema] };
+  }
+  const copy = (s: ConfigSchema) => withLevelPatterns(s, customLevels);
+  return {
+    ...schema,
+    ...(schema.properties && { properties: mapValues(schema.properties, copy) }),
+    ...(schema.items && { items: copy(schema.items) }),
+    ...(schema.anyOf && { anyOf: schema.anyOf.map(copy) }),
+    ...(isObject(schema.additionalProperties) && {
+      additionalProperties: copy(schema.additionalProperties),
+    }),
+  };
+}
+
+function levelPattern(levels: string[]): string {
+  // JSON Schema patterns take no flags, so every letter is matched in either case
+  const caseless = (name: string) => name.replace(/[a-z]/g, (c) => `[${c}${c.toUpperCase()}]`);
+  return `^\\s*(?:${levels.map(caseless).join('|')})\\s*$`;
+}
+
+function mapValues<T>(record: Record<string, T>, fn: (value: T) => T): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): ConfigSchemaType | 'null' | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as ConfigSchemaType;
+}
+
+function matchesType(value: unknown, type: ConfigSchemaType | ConfigSchemaType[]): boolean {
+  const actual = typeOf(value);
+  return (Array.isArray(type) ? type : [type]).some(
+    (t) => t === actual || (t === 'integer' && Number.isInteger(value)),
+  );
+}
+
+function describeSchemas(schemas: ConfigSchema[]): string {
+  const parts = schemas.flatMap((s) =>
+    s.type ? ([] as string[]).concat(s.type) : (s.enum ?? []).map((v) => JSON.stringify(v)),
+  );
+  return [...new Set(parts)].join(' or ');
+}
+
+function joinPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function closestMatch(key: string, candidates: string[]): string | undefined {
+  // Suggest a known property within a small edit distance of a likely typo
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(key.length / 4)) + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export { ConfigValidator };
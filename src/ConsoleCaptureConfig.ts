@@ -0,0 +1,40 @@
+import type { LogLevelType } from './LogLevel.ts';
+
+/**
+ * Console methods that can be captured by LoggingConfig.captureConsole.
+ */
+export type ConsoleMethod = 'error' | 'warn' | 'info' | 'log' | 'debug' | 'trace';
+
+/**
+ * Configuration for routing global console calls into LogM8, enabled via
+ * LoggingConfig.captureConsole.
+ *
+ * While installed, each call to a captured console method becomes a LogEvent on
+ * the configured logger: the first argument is the message and the remaining
+ * arguments are the event data. The built-in console appender keeps writing to
+ * the original console methods, so captured output is not re-captured.
+ *
+ * The original console is restored by LogM8.dispose() or a subsequent LogM8.init().
+ *
+ * @example
+ * ```typescript
+ * Logging.init({
+ *   captureConsole: { logger: 'thirdparty', levels: { log: 'debug' } },
+ * });
+ *
+ * console.log('hello'); // -> debug event on logger 'thirdparty'
+ * ```
+ */
+export interface ConsoleCaptureConfig {
+  /**
+   * Name of the logger that receives captured console calls. Defaults to 'console'.
+   */
+  logger?: string;
+
+  /**
+   * Level for each captured console method. Methods not listed use the defaults:
+   * error -> error, warn -> warn, info -> info, log -> info, debug -> debug, trace -> trace.
+   * Map a method to 'off' to leave it uncaptured.
+   */
+  levels?: Partial<Record<ConsoleMethod, string | LogLevelType>>;
+}
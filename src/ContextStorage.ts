@@ -0,0 +1,53 @@
+/* NODEJS:START */
+import { AsyncLocalStorage } from 'async_hooks';
+
+/* NODEJS:END */
+import type { LogContext } from './LogContext.ts';
+
+/**
+ * Storage for the ambient context set by LogM8.runWithContext().
+ *
+ * Matches the subset of Node's AsyncLocalStorage used by LogM8, so the Node build
+ * can use AsyncLocalStorage directly while the browser build falls back to
+ * SyncContextStorage.
+ */
+export interface ContextStorage {
+  getStore(): LogContext | undefined;
+  run<R>(store: LogContext, callback: () => R): R;
+}
+
+/**
+ * Creates the ContextStorage for the current environment: AsyncLocalStorage in
+ * Node.js (context follows the async call tree) and SyncContextStorage elsewhere.
+ */
+export function createContextStorage(): ContextStorage {
+  let storage: ContextStorage = new SyncContextStorage();
+  /* NODEJS:START */
+  storage = new AsyncLocalStorage<LogContext>();
+  /* NODEJS:END */
+  return storage;
+}
+
+/**
+ * Synchronous ContextStorage fallback for environments without AsyncLocalStorage.
+ *
+ * The context is only visible while the callback runs synchronously; code that
+ * continues after an `await` or in a later task no longer sees it.
+ */
+export class SyncContextStorage implements ContextStorage {
+  private _store: LogContext | undefined;
+
+  public getStore(): LogContext | undefined {
+    return this._store;
+  }
+
+  public run<R>(store: LogContext, callback: () => R): R {
+    const previous = this._store;
+    this._store = store;
+    try {
+      return callback();
+    } finally {
+      this._store = previous;
+    }
+  }
+}
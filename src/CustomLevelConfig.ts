@@ -0,0 +1,64 @@
+/**
+ * Declares an additional log level, configured via LoggingConfig.customLevels.
+ *
+ * A custom level is placed directly above (more severe than) or below (less severe
+ * than) an existing built-in or previously declared custom level. Loggers get a
+ * logging method and an `is<Name>` flag for it, and it can be used wherever a level
+ * name is accepted (logger, appender and capture levels, setLevel(), filters).
+ *
+ * The built-in console and file appenders accept custom levels; other appenders only
+ * receive them when their supportedLevels include the level.
+ *
+ * @example
+ * ```typescript
+ * Logging.init({
+ *   level: 'notice',
+ *   customLevels: [
+ *     { name: 'notice', below: 'warn', console: 'info', color: '\x1b[36m', css: 'color: teal;' },
+ *     { name: 'audit', above: 'fatal', console: 'warn' },
+ *   ],
+ * });
+ *
+ * const logger = Logging.getLogger<'notice' | 'audit'>('app');
+ * logger.notice('Cache warmed'); // level order: off, audit, fatal, error, warn, notice, info, ...
+ * ```
+ */
+export interface CustomLevelConfig {
+  /**
+   * Level name: lowercase letters and digits, starting with a letter. Must not be a
+   * built-in level or a logger property ('name', 'level', 'context', 'child', 'enabled').
+   */
+  name: string;
+
+  /**
+   * Level this level is placed directly above, i.e. more severe than.
+   * Exactly one of `above` and `below` is required.
+   */
+  above?: string;
+
+  /**
+   * Level this level is placed directly below, i.e. less severe than.
+   * Exactly one of `above` and `below` is required.
+   */
+  below?: string;
+
+  /**
+   * Console method the console appender writes events of this level with ('log').
+   */
+  console?: CustomLevelConsoleMethod;
+
+  /**
+   * ANSI escape sequence used by the default formatter to color the level in Node.js.
+   */
+  color?: string;
+
+  /**
+   * CSS style used by the default formatter to color the level in browsers.
+   */
+  css?: string;
+}
+
+/**
+ * Console methods a custom level can be written with by the console appender.
+ */
+export type CustomLevelConsoleMethod = 'error' | 'warn' | 'info' | 'debug' | 'log';
@@ -0,0 +1,38 @@
+/**
+ * Configuration of LogM8 self-diagnostics, set via LoggingConfig.diagnostics.
+ *
+ * Controls how internal failures (see InternalError) are surfaced in addition to
+ * the handlers registered with LogM8.onInternalError().
+ *
+ * @example
+ * ```typescript
+ * Logging.init({
+ *   // Monitor failures through the logging pipeline instead of stdout
+ *   diagnostics: { mode: 'quiet', logger: true },
+ * });
+ * ```
+ */
+export interface DiagnosticsConfig {
+  /**
+   * Console reporting of internal failures:
+   * - 'quiet': nothing is printed
+   * - 'normal': a one-line description with the underlying error
+   * - 'verbose': additionally tags each failure with its source, plugin kind and phase
+   *
+   * Defaults to 'normal'.
+   */
+  mode?: DiagnosticsMode;
+
+  /**
+   * When true or a logger name, internal failures are also logged as events on that
+   * logger ('logm8.internal' when true), at 'error' or 'warn' level with the source,
+   * kind and phase in the event context. Failures that occur while such an event is
+   * written are not logged again. Disabled by default.
+   */
+  logger?: boolean | string;
+}
+
+/**
+ * Console reporting modes of DiagnosticsConfig.mode.
+ */
+export type DiagnosticsMode = 'quiet' | 'normal' | 'verbose';
@@ -0,0 +1,41 @@
+/**
+ * Configuration for environment variable overrides, enabled via LoggingConfig.env.
+ *
+ * Environment variables are merged on top of the programmatic configuration, so
+ * deployments can change verbosity without code changes. Precedence, from lowest
+ * to highest:
+ *
+ * 1. The programmatic LoggingConfig (or config file)
+ * 2. The DEBUG-style namespace list, e.g. `DEBUG=app:db,app.http.*,-app.http.health`:
+ *    listed loggers are raised to at least 'debug', `*` raises the global level,
+ *    and `-` prefixed loggers are pinned to the configured global level
+ * 3. `LOGM8_LOGGERS`, e.g. `LOGM8_LOGGERS=app.db=trace,app.http=warn`
+ * 4. `LOGM8_LEVEL` for the global level, e.g. `LOGM8_LEVEL=debug`
+ *
+ * Entries with an unknown level are reported as internal errors and skipped.
+ *
+ * @example
+ * ```typescript
+ * Logging.init({ level: 'info', env: true });
+ * // LOGM8_LEVEL=warn LOGM8_LOGGERS=app.db=trace node app.js
+ * // -> warn and above everywhere, every level from 'app.db'
+ * ```
+ */
+export interface EnvConfig {
+  /**
+   * Prefix of the LEVEL and LOGGERS variables. Defaults to 'LOGM8_'.
+   */
+  prefix?: string;
+
+  /**
+   * Name of the DEBUG-style namespace list variable, or false to ignore it.
+   * Defaults to 'DEBUG'.
+   */
+  debug?: string | false;
+
+  /**
+   * Variables to read. Defaults to process.env in Node.js and to no variables
+   * in the browser.
+   */
+  source?: Record<string, string | undefined>;
+}
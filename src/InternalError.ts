@@ -0,0 +1,68 @@
+import type { PluginKindType } from './PluginKind.ts';
+
+/**
+ * A failure inside the logging system, reported via LogM8.onInternalError().
+ *
+ * Internal failures never throw into application code; they are delivered to the
+ * registered handlers, printed on the console according to LoggingConfig.diagnostics,
+ * and optionally logged on the 'logm8.internal' logger.
+ *
+ * @example
+ * ```typescript
+ * Logging.onInternalError((e) => {
+ *   metrics.increment('logging.failures', { source: e.source, phase: e.phase });
+ * });
+ * ```
+ */
+export interface InternalError {
+  /**
+   * 'error' for failed operations, 'warn' for problems that were worked around
+   * (e.g. configuration problems in lenient validation mode).
+   */
+  severity: 'error' | 'warn';
+
+  /**
+   * Name of the plugin that failed, or 'logm8' for failures of LogM8 itself.
+   */
+  source: string;
+
+  /**
+   * Kind of the plugin that failed, when the source is a plugin.
+   */
+  kind?: PluginKindType;
+
+  /**
+   * Operation that failed.
+   */
+  phase: InternalErrorPhase;
+
+  /**
+   * Description of the failure.
+   */
+  message: string;
+
+  /**
+   * The underlying error, if any.
+   */
+  error?: unknown;
+
+  /**
+   * When the failure was reported.
+   */
+  timestamp: Date;
+}
+
+/**
+ * Operations during which internal failures are reported:
+ * - 'config': applying or validating configuration (including config file reloads)
+ * - 'write': writing an event, including opening output streams
+ * - 'flush': flushing buffered output
+ * - 'rollover': background file rotation, compression and retention
+ * - 'dispose': releasing plugin resources
+ */
+export type InternalErrorPhase = 'config' | 'write' | 'flush' | 'rollover' | 'dispose';
+
+/**
+ * Callback registered with LogM8.onInternalError().
+ */
+export type InternalErrorHandler = (error: InternalError) => void;
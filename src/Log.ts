@@ -1,6 +1,21 @@
 import type { LogContext } from './LogContext.ts';
 import type { LogLevelType } from './LogLevel.ts';
 
+/**
+ * Function-valued log message evaluated lazily.
+ *
+ * Passing a function as the message defers building the message and data until the
+ * event has passed the level check and global filters. The function may return the
+ * message alone, or an array whose first element is the message and whose remaining
+ * elements are prepended to the event data.
+ *
+ * @example
+ * ```typescript
+ * logger.debug(() => ['State snapshot', JSON.stringify(bigState)]);
+ * ```
+ */
+export type LogMessageFactory = () => unknown;
+
 /**
  * Interface for a hierarchical logger instance providing level-based logging methods.
  *
@@ -22,16 +37,22 @@ import type { LogLevelType } from './LogLevel.ts';
  * if (logger.isEnabled && logger.isDebug) {
  *   logger.debug('Expensive debug data', computeExpensiveDebugInfo());
  * }
+ *
+ * // Or defer the work with a lazily evaluated message
+ * logger.debug(() => ['Expensive debug data', computeExpensiveDebugInfo()]);
  * ```
+ *
+ * @typeParam L - Names of custom levels (see LoggingConfig.customLevels) of the loggers
+ *   returned by getLogger() and child()
  */
-export interface Log {
+export interface Log<L extends string = never> {
   /**
    * Logs a message at fatal severity level.
    *
    * Fatal events indicate critical system failures that typically require
    * immediate intervention and may result in application termination.
    *
-   * @param message - Primary message or serializable object to log
+   * @param message - Primary message, serializable object, or lazy LogMessageFactory to log
    * @param data - Additional context data to include with the log event
    */
   fatal(message: string | unknown, ...data: unknown[]): void;
@@ -42,7 +63,7 @@ export interface Log {
    * Error events indicate failures that prevent normal operation but
    * don't necessarily require application termination.
    *
-   * @param message - Primary message or serializable object to log
+   * @param message - Primary message, serializable object, or lazy LogMessageFactory to log
    * @param data - Additional context data to include with the log event
    */
   error(message: string | unknown, ...data: unknown[]): void;
@@ -53,7 +74,7 @@ export interface Log {
    * Warning events indicate potentially problematic situations that
    * don't prevent operation but may require attention.
    *
-   * @param message - Primary message or serializable object to log
+   * @param message - Primary message, serializable object, or lazy LogMessageFactory to log
    * @param data - Additional context data to include with the log event
    */
   warn(message: string | unknown, ...data: unknown[]): void;
@@ -64,7 +85,7 @@ export interface Log {
    * Info events provide general informational messages about normal
    * application operation and significant business events.
    *
-   * @param message - Primary message or serializable object to log
+   * @param message - Primary message, serializable object, or lazy LogMessageFactory to log
    * @param data - Additional context data to include with the log event
    */
   info(message: string | unknown, ...data: unknown[]): void;
@@ -75,7 +96,7 @@ export interface Log {
    * Debug events provide detailed diagnostic information useful during
    * development and troubleshooting.
    *
-   * @param message - Primary message or serializable object to log
+   * @param message - Primary message, serializable object, or lazy LogMessageFactory to log
    * @param data - Additional context data to include with the log event
    */
   debug(message: string | unknown, ...data: unknown[]): void;
@@ -86,7 +107,7 @@ export interface Log {
    * Track events are specifically designed for analytics and user behavior
    * tracking, separate from operational logging concerns.
    *
-   * @param message - Primary message or serializable object to log
+   * @param message - Primary message, serializable object, or lazy LogMessageFactory to log
    * @param data - Additional context data to include with the log event
    */
   track(message: string | unknown, ...data: unknown[]): void;
@@ -97,7 +118,7 @@ export interface Log {
    * Trace events provide the most detailed execution information,
    * typically used for fine-grained debugging and performance analysis.
    *
-   * @param message - Primary message or serializable object to log
+   * @param message - Primary message, serializable object, or lazy LogMessageFactory to log
    * @param data - Additional context data to include with the log event
    */
   trace(message: string | unknown, ...data: unknown[]): void;
@@ -154,7 +175,7 @@ export interface Log {
   readonly name: string;
 
   /** The current logging level determining which events are emitted. */
-  readonly level: LogLevelType;
+  readonly level: LogLevelType | L;
 
   /** Contextual data automatically included with all log events from this logger. */
   readonly context: LogContext;
@@ -165,7 +186,11 @@ export interface Log {
    * Events at or below this level will be emitted based on the level hierarchy:
    * off < fatal < error < warn < info < debug < track < trace
    *
+   * Descendant loggers without an explicit level of their own inherit this level.
+   *
    * @param level - New logging level name (e.g., 'info', 'debug', 'off')
+   *
+   * @throws {Error} When called on a scoped logger created with child()
    */
   setLevel(level: string | LogLevelType): void;
 
@@ -195,5 +220,47 @@ export interface Log {
    * const grandchild = child.getLogger('queries'); // Name: 'app.database.queries'
    * ```
    */
-  getLogger(name: string): Log;
+  getLogger(name: string): CustomLevelLog<L>;
+
+  /**
+   * Creates a lightweight scoped logger carrying additional context.
+   *
+   * The returned logger shares this logger's name and level (including later level
+   * changes), and its context is this logger's current context merged with the given
+   * fields. The merged context is frozen and the child is not cached, so concurrent
+   * requests can each use their own child without overwriting one another.
+   * Calling setContext() on a child replaces only that child's context, again frozen.
+   * Levels belong to the named logger: setLevel() on a child throws, and getLogger()
+   * resolves names relative to the shared name.
+   *
+   * @param context - Fields to add to (or override in) the inherited context
+   * @returns Scoped logger with the merged context
+   *
+   * @example
+   * ```typescript
+   * const logger = Logging.getLogger('api.orders');
+   * const reqLogger = logger.child({ requestId: req.id });
+   * reqLogger.info('Order received'); // context: { ...logger.context, requestId }
+   * ```
+   */
+  child(context: LogContext): CustomLevelLog<L>;
 }
+
+/**
+ * Logger with a logging method and an `is<Name>` flag for each custom level declared
+ * in LoggingConfig.customLevels.
+ *
+ * LogM8 adds the members at runtime; the type parameter only tells the compiler
+ * which custom levels are configured.
+ *
+ * @example
+ * ```typescript
+ * const logger: CustomLevelLog<'notice'> = Logging.getLogger<'notice'>('app');
+ * if (logger.isNotice) logger.notice('Cache warmed');
+ * ```
+ */
+export type CustomLevelLog<L extends string> = Log<L> & {
+  [K in L]: (message: string | unknown, ...data: unknown[]) => void;
+} & {
+  readonly [K in L as `is${Capitalize<K>}`]: boolean;
+};
@@ -1,4 +1,5 @@
 import type { LogContext, LogLevelType } from './index.ts';
+import type { LogLocation } from './LogLocation.ts';
 
 /**
  * Structured representation of a single log entry containing all event data.
@@ -32,7 +33,7 @@ export interface LogEvent {
 
   /**
    * Severity level determining event importance and routing.
-   * Must match one of the LogLevel enum values.
+   * One of the LogLevel enum values, or a level declared in LoggingConfig.customLevels.
    */
   readonly level: LogLevelType;
 
@@ -48,6 +49,18 @@ export interface LogEvent {
    */
   readonly data: unknown[];
 
+  /**
+   * Original message template when the message was interpolated
+   * (see LoggingConfig.interpolate). Stable across events, so useful for grouping.
+   */
+  readonly template?: string;
+
+  /**
+   * Original arguments passed with the template when the message was interpolated.
+   * `data` then holds only the arguments not consumed by printf-style placeholders.
+   */
+  readonly args?: unknown[];
+
   /**
    * Logger's contextual metadata at the time of event creation.
    * Automatically included from logger.setContext() calls.
@@ -59,4 +72,10 @@ export interface LogEvent {
    * Set automatically when the log method is called.
    */
   readonly timestamp: Date;
+
+  /**
+   * Source location of the logging call, when captured
+   * (see LoggingConfig.captureLocation).
+   */
+  readonly location?: LogLocation;
 }
@@ -0,0 +1,28 @@
+/**
+ * Source location of the call that created a log event.
+ *
+ * Captured from the JavaScript stack when LoggingConfig.captureLocation is enabled
+ * for the event's logger and level, and exposed as LogEvent.location. Formatters can
+ * reference the fields with dot-path tokens such as {location.file}:{location.line}.
+ */
+export interface LogLocation {
+  /**
+   * File path or URL of the calling code, as reported by the stack trace.
+   */
+  file: string;
+
+  /**
+   * 1-based line number of the call.
+   */
+  line: number;
+
+  /**
+   * 1-based column number of the call.
+   */
+  column: number;
+
+  /**
+   * Name of the calling function, when the stack trace reports one.
+   */
+  function?: string;
+}
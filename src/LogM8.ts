@@ -5,27 +5,68 @@
 
 import type { Appender } from './Appender.ts';
 import type { AppenderConfig } from './AppenderConfig.ts';
-import { ConsoleAppenderFactory } from './appenders/ConsoleAppender.ts';
+import {
+  ConsoleAppenderFactory,
+  consoleMethod,
+  ORIGINAL_CONSOLE_METHOD,
+} from './appenders/ConsoleAppender.ts';
 /* NODEJS:START */
 import { FileAppenderFactory } from './appenders/FileAppender.ts';
+import { RollingFileAppenderFactory } from './appenders/RollingFileAppender.ts';
 /* NODEJS:END */
+import type { BufferConfig } from './BufferConfig.ts';
+import type { CaptureErrorsConfig } from './CaptureErrorsConfig.ts';
+import type { CaptureLocationConfig } from './CaptureLocationConfig.ts';
+/* NODEJS:START */
+import { readConfigFile, watchConfigFile } from './ConfigFile.ts';
+import type { ConfigFileOptions, ConfigParser } from './ConfigFileOptions.ts';
+/* NODEJS:END */
+import { type ConfigProblem, ConfigValidator } from './ConfigValidator.ts';
+import type { ConsoleCaptureConfig, ConsoleMethod } from './ConsoleCaptureConfig.ts';
+import { type ContextStorage, createContextStorage } from './ContextStorage.ts';
+import type { CustomLevelConfig } from './CustomLevelConfig.ts';
+import type { DiagnosticsConfig } from './DiagnosticsConfig.ts';
+import type { EnvConfig } from './EnvConfig.ts';
 import type { Filter } from './Filter.ts';
 import { MatchFilterFactory } from './filters/MatchFilter.ts';
 import type { Formatter } from './Formatter.ts';
 import { DefaultFormatterFactory } from './formatters/DefaultFormatter.ts';
 import { JsonFormatterFactory } from './formatters/JsonFormatter.ts';
-import type { Log } from './Log.ts';
+import type { InternalError, InternalErrorHandler } from './InternalError.ts';
+import type { CustomLevelLog, Log, LogMessageFactory } from './Log.ts';
 import type { LogContext } from './LogContext.ts';
 import type { LogEvent } from './LogEvent.ts';
-import type { LoggingConfig } from './LoggingConfig.ts';
+import type { LoggerConfig } from './LoggerConfig.ts';
+import type { ConfigValidationMode, LoggingConfig } from './LoggingConfig.ts';
 import type { LogImpl } from './LogImpl.ts';
 import { LogLevel, type LogLevelType } from './LogLevel.ts';
+import type { LogLocation } from './LogLocation.ts';
+import type { LogM8Options } from './LogM8Options.ts';
 import { LogM8Utils } from './LogM8Utils.ts';
+import type { LogStats } from './LogStats.ts';
+import { PipelineStats } from './PipelineStats.ts';
+import type { Plugin } from './Plugin.ts';
 import type { PluginFactory } from './PluginFactory.ts';
 import { PluginKind } from './PluginKind.ts';
 import { PluginManager } from './PluginManager.ts';
+import type { ShutdownConfig, ShutdownEvent } from './ShutdownConfig.ts';
+
+// An appender with the formatter and filters created for it, keyed by its serialized config
+interface AppenderEntry {
+  key: string;
+  appender: Appender;
+  plugins: Plugin[];
+  created: boolean;
+}
 
-const MAX_LOG_BUFFER_SIZE = 100; // Maximum size of the log buffer before dropping events
+interface FilterEntry {
+  key: string;
+  filter: Filter;
+  created: boolean;
+}
+
+const DEFAULT_LOG_BUFFER_SIZE = 100; // Maximum size of the log buffer before dropping events
+const BUFFER_LOGGER = 'logm8'; // Logger of the warning about discarded buffered events
 const DEFAULT_FORMATTER = 'default-formatter';
 const DEFAULT_APPENDERS = [
   {
@@ -33,6 +74,46 @@ const DEFAULT_APPENDERS = [
     formatter: DEFAULT_FORMATTER,
   },
 ];
+const DEFAULT_ENV_PREFIX = 'LOGM8_';
+const DEFAULT_ENV_DEBUG = 'DEBUG';
+const DEFAULT_CAPTURE_LOGGER = 'uncaught';
+const DEFAULT_CONSOLE_LOGGER = 'console';
+const DEFAULT_CONSOLE_LEVELS: Record<ConsoleMethod, LogLevelType> = {
+  error: LogLevel.error,
+  warn: LogLevel.warn,
+  info: LogLevel.info,
+  log: LogLevel.info,
+  debug: LogLevel.debug,
+  trace: LogLevel.trace,
+};
+const DEFAULT_SHUTDOWN_LOGGER = 'logm8';
+const INTERNAL_SOURCE = 'logm8'; // InternalError.source of failures of LogM8 itself
+const DEFAULT_INTERNAL_LOGGER = 'logm8.internal';
+const DEFAULT_SHUTDOWN_TIMEOUT = 5000;
+const DEFAULT_SHUTDOWN_EVENTS: ShutdownEvent[] = [
+  'beforeExit',
+  'SIGINT',
+  'SIGTERM',
+  'uncaughtException',
+];
+// Conventional exit codes for termination by signal (128 + signal number)
+const SIGNAL_EXIT_CODES: Record<string, number> = { SIGINT: 130, SIGTERM: 143 };
+const CUSTOM_LEVEL_NAME = /^[a-z][a-z0-9]*$/;
+// Logger properties a custom level method or is<Name> flag would overwrite
+const RESERVED_LEVEL_NAMES = new Set([
+  'name',
+  'level',
+  'context',
+  'child',
+  'enabled',
+  'constructor',
+]);
+
+// Level names are matched case-insensitively, ignoring surrounding whitespace
+const normalizeLevel = (level: string) => level.trim().toLowerCase() as LogLevelType;
+
+// Name of the logger flag of a custom level, e.g. isNotice for 'notice'
+const levelFlag = (level: string) => `is${level[0].toUpperCase()}${level.slice(1)}`;
 
 /**
  * Central logging manager providing hierarchical loggers and configurable output.
@@ -40,12 +121,13 @@ const DEFAULT_APPENDERS = [
  * LogM8 manages the complete logging lifecycle including:
  * - Logger creation and configuration with hierarchical naming
  * - Plugin-based appender, formatter, and filter system
- * - Pre-initialization event buffering (up to 100 events)
+ * - Pre-initialization event buffering (100 events by default, configurable via the
+ *   `buffer` constructor option or configureBuffer())
  * - Runtime appender and filter control (enable/disable/flush)
- * - Built-in console and file appenders with customizable formatting
+ * - Built-in console, file and rolling file appenders with customizable formatting
  *
  * The manager operates as a singleton export but can also be instantiated directly.
- * Events logged before init() are buffered and flushed on first post-init log.
+ * Events logged before init() are buffered and flushed by init(), before any later event.
  *
  * @example
  * ```typescript
@@ -68,29 +150,104 @@ const DEFAULT_APPENDERS = [
  * // Runtime control
  * Logging.disableAppender('console');
  * Logging.disableFilter('sensitive-data');
- * Logging.flushAppenders();
+ * await Logging.flushAppenders();
  * ```
  */
 class LogM8 {
   private _initialized: boolean;
   private _pluginManager: PluginManager;
   private _loggers: Map<string, Log>;
+  private _loggerLevels: Map<string, LogLevelType>;
   private _appenders: Appender[];
+  // Appenders and global filters with the serialized config that created them,
+  // so reconfigure() can keep the ones whose config is unchanged
+  private _appenderEntries: AppenderEntry[] = [];
+  private _filterEntries: FilterEntry[] = [];
+  private _config: LoggingConfig = {};
+  // Level thresholds from AppenderConfig.level/levels and setAppenderLevel()
+  private _appenderLevels: Map<Appender, { levelNumber?: number; levels?: Set<string> }>;
+  // Compiled AppenderConfig.loggers patterns, and the resulting appenders per logger name
+  private _appenderRoutes: Map<Appender, (logger: string) => boolean>;
+  private _routedAppenders: Map<string, Appender[]>;
+  // Object-form LoggingConfig.loggers entries with appenders or additivity settings
+  private _loggerConfigs: Map<string, LoggerConfig>;
   private _filters: Filter[] = [];
+  private _interpolate = false;
+
+  // Loggers and levels selected by LoggingConfig.captureLocation (undefined when disabled)
+  private _locationCapture: { loggers?: string[]; levels?: Set<string> } | undefined;
 
   private _globalLogLevel: LogLevelType;
+  // Most verbose level emitted by any logger: the global level, raised by more verbose
+  // logger levels until the global level is set again
   private _globalLogLevelNumber: number;
   private _logLevelValues: LogLevelType[];
   private _logLevelSet: Set<LogLevelType>;
+  // Levels declared by LoggingConfig.customLevels, placed among _logLevelValues
+  private _customLevels: CustomLevelConfig[] = [];
 
-  // Buffer for log events before the system is initialized
+  // Buffer for log events before the system is initialized, and the number of events
+  // discarded since it was last flushed
   private _logBuffer: LogEvent[];
+  private _bufferConfig: Required<BufferConfig>;
+  private _discardedEvents = 0;
+
+  // Process listeners registered for graceful shutdown (Node.js only)
+  private _shutdownListeners: [ShutdownEvent, (...args: unknown[]) => void][] = [];
+  private _shuttingDown = false;
+
+  // Removes the uncaught error listeners installed by LoggingConfig.captureErrors
+  private _errorCaptureCleanup: (() => void)[] = [];
+
+  // Restores the console methods patched by LoggingConfig.captureConsole
+  private _consoleCaptureCleanup: (() => void)[] = [];
+
+  // Stops watching the file loaded by initFromFile() (Node.js only)
+  private _stopConfigWatch: (() => void) | undefined;
+
+  // Ambient context set by runWithContext()
+  private _contextStorage: ContextStorage;
 
-  constructor() {
+  // Validates configs against the LoggingConfig schema and the registered factories
+  private _validator: ConfigValidator;
+
+  // Receivers of internal failures, and how they are surfaced besides the handlers
+  private _internalErrorHandlers: InternalErrorHandler[] = [];
+  private _diagnostics: DiagnosticsConfig = {};
+  // Set while an internal failure is logged, so failures doing so are not logged again
+  private _loggingInternalError = false;
+
+  // Counters behind getStats(); _writeDenied is set when an appender filter denies the
+  // event being written
+  private _stats = new PipelineStats();
+  private _writeDenied = false;
+
+  /**
+   * Creates a logging manager. Most applications use the default `LogM8` instance
+   * exported by the package instead.
+   *
+   * @param options - Instance options that apply before init(), such as the buffer for
+   *   events logged before initialization
+   */
+  constructor(options: LogM8Options = {}) {
     this._initialized = false;
-    this._pluginManager = new PluginManager();
+    this._pluginManager = new PluginManager((plugin, phase, message, error) =>
+      this._reportInternalError({
+        severity: 'error',
+        source: plugin.name,
+        kind: plugin.kind,
+        phase,
+        message,
+        error,
+      }),
+    );
     this._loggers = new Map();
+    this._loggerLevels = new Map();
     this._appenders = [];
+    this._appenderLevels = new Map();
+    this._appenderRoutes = new Map();
+    this._routedAppenders = new Map();
+    this._loggerConfigs = new Map();
     this._filters = [];
 
     this._logLevelValues = Object.values(LogLevel);
@@ -99,15 +256,46 @@ class LogM8 {
     this._globalLogLevelNumber = this._logLevelValues.indexOf(LogLevel.info);
 
     this._logBuffer = [];
+    this._bufferConfig = { size: DEFAULT_LOG_BUFFER_SIZE, overflow: 'drop-oldest' };
+    this.configureBuffer(options.buffer ?? {});
+
+    this._contextStorage = createContextStorage();
+    this._validator = new ConfigValidator(this._pluginManager);
 
-    // Register built-in plugin factories for console/file appenders and default formatter
-    this._pluginManager.registerPluginFactory(new ConsoleAppenderFactory());
+    this.registerBuiltInPluginFactories();
+  }
+
+  /**
+   * Registers the built-in plugin factories: the console, file and rolling-file
+   * appenders, the default and JSON formatters, and the match filter.
+   *
+   * Called by the constructor. dispose() deregisters every factory, so call this
+   * before initializing a disposed instance again. Built-in factories whose name is
+   * already registered (including custom factories registered under a built-in name)
+   * are skipped, so calling it repeatedly is safe.
+   *
+   * @example
+   * ```typescript
+   * await logging.dispose();
+   * logging.registerBuiltInPluginFactories();
+   * logging.init({ appenders: ['console'] });
+   * ```
+   */
+  public registerBuiltInPluginFactories(): void {
+    const factories: PluginFactory[] = [new ConsoleAppenderFactory()];
     /* NODEJS:START */
-    this._pluginManager.registerPluginFactory(new FileAppenderFactory());
+    factories.push(new FileAppenderFactory(), new RollingFileAppenderFactory());
     /* NODEJS:END */
-    this._pluginManager.registerPluginFactory(new DefaultFormatterFactory());
-    this._pluginManager.registerPluginFactory(new JsonFormatterFactory());
-    this._pluginManager.registerPluginFactory(new MatchFilterFactory());
+    factories.push(
+      new DefaultFormatterFactory(),
+      new JsonFormatterFactory(),
+      new MatchFilterFactory(),
+    );
+
+    const registered = new Set(this._pluginManager.getPluginFactories().map((f) => f.name));
+    for (const factory of factories) {
+      if (!registered.has(factory.name)) this._pluginManager.registerPluginFactory(factory);
+    }
   }
 
   /**
@@ -117,12 +305,23 @@ class LogM8 {
    * formatters and filters, and processes any events buffered before initialization.
    * Appenders are sorted by priority (descending) for deterministic execution order.
    *
+   * init() returns synchronously: the appenders of a previous configuration are flushed
+   * and disposed in the background. Await dispose() first when they must be closed before
+   * the new ones open, or use reconfigure(), which resolves once removed appenders are disposed.
+   *
    * @param config - Logging configuration object
    * @param config.level - Default log level for all loggers ('info' if not specified)
-   * @param config.loggers - Per-logger level overrides by name
+   * @param config.loggers - Per-logger levels or LoggerConfig objects (level, appenders, additivity)
    * @param config.appenders - Appender configurations (defaults to console if not specified)
+   * @param config.interpolate - Opt-in printf-style and named placeholder interpolation
+   * @param config.captureLocation - Opt-in caller location capture for selected loggers and levels
+   * @param config.shutdown - Opt-in process shutdown hooks that flush appenders before exit
+   * @param config.captureErrors - Opt-in capture of uncaught exceptions and unhandled rejections
+   * @param config.captureConsole - Opt-in routing of global console calls into a logger
+   * @param config.validation - 'strict', 'lenient' (default) or 'off' handling of config problems
    *
-   * @throws {Error} When referenced plugin factories are not registered
+   * @throws {Error} When referenced plugin factories are not registered, or when the
+   *   configuration is invalid and `validation` is 'strict'
    *
    * @example
    * ```typescript
@@ -139,102 +338,240 @@ class LogM8 {
    */
   public init(config?: LoggingConfig): void {
     config = Object.assign({}, config);
+    this._validateOrWarn(config, config.validation);
 
-    this._reset();
+    // Previous appenders finish flushing and disposing in the background
+    void this._reset();
 
-    // Set the global logging level
-    this.setLevel(config.level ?? LogLevel.info);
+    // Nothing to dispose after a reset, so the returned promise can be ignored
+    void this._applyConfig(config);
 
-    // Set up loggers
-    for (const [name, l] of Object.entries(config.loggers ?? {})) {
-      const levelStr = (l ?? '').trim().toLowerCase();
-      const logger = this.getLogger(name);
-      const level = this._logLevelSet.has(levelStr as LogLevelType)
-        ? (levelStr as LogLevelType)
-        : this._globalLogLevel;
-      logger.setLevel(level);
-    }
+    this._initialized = true;
 
-    // Set up appenders
-    const appenderConfigs = config.appenders ?? DEFAULT_APPENDERS;
-    for (const appenderConfigOrName of appenderConfigs) {
-      const appender = this._pluginManager.createPlugin(
-        PluginKind.appender,
-        appenderConfigOrName,
-      ) as Appender;
+    // Deliver events logged before initialization to the new appenders right away
+    this._flushLogBuffer();
+  }
 
-      const appenderConfig: AppenderConfig = LogM8Utils.isString(appenderConfigOrName)
-        ? {
-            name: appender.name,
-          }
-        : (appenderConfigOrName as AppenderConfig);
+  /**
+   * Configures the buffer holding events logged before init().
+   *
+   * Call it before anything is logged; the new settings apply to events buffered
+   * afterwards. Options not given keep their current values. When the buffer overflows,
+   * the overflow policy decides which events are discarded, and a warning event on the
+   * 'logm8' logger reports how many were discarded once the buffer is flushed by init().
+   *
+   * @param config - Buffer size and overflow policy
+   *
+   * @example
+   * ```typescript
+   * Logging.configureBuffer({ size: 1000, overflow: 'keep-first' });
+   * ```
+   */
+  public configureBuffer(config: BufferConfig): void {
+    this._bufferConfig = {
+      size: Math.max(0, config.size ?? this._bufferConfig.size),
+      overflow: config.overflow ?? this._bufferConfig.overflow,
+    };
+  }
 
-      const formatter = appenderConfig?.formatter
-        ? (this._pluginManager.createPlugin(
-            PluginKind.formatter,
-            appenderConfig.formatter,
-          ) as Formatter)
-        : undefined;
+  /* NODEJS:START */
+  /**
+   * Initializes the logging system from a configuration file (Node.js only).
+   *
+   * The file is parsed as JSON unless a parser is given (e.g. a YAML parser), and
+   * validated before it is applied. With `watch: true` the file is re-applied whenever
+   * it changes: logger objects and unchanged appenders are kept as with reconfigure(),
+   * and an invalid edit is reported on the console while the last good configuration
+   * stays active. Watching stops on dispose() or the next init().
+   *
+   * @param path - Path of the JSON (or custom format) configuration file
+   * @param options - Watch and parser options
+   *
+   * @throws {Error} When the file cannot be read, parsed or validated, or references
+   *   plugin factories that are not registered
+   *
+   * @example
+   * ```typescript
+   * // logging.json: { "level": "info", "loggers": { "app.payments": "debug" } }
+   * Logging.initFromFile('logging.json', { watch: true });
+   * ```
+   */
+  public initFromFile(path: string, options: ConfigFileOptions = {}): void {
+    this.init(this._loadConfigFile(path, options.parser));
 
-      const filters: Filter[] = [];
-      const ac = appenderConfig as AppenderConfig;
-      for (const filterConfig of ac.filters ?? []) {
-        const filter = this._pluginManager.createPlugin(PluginKind.filter, filterConfig);
-        if (filter) {
-          filters.push(filter as Filter);
-        } else {
-          if (console && console.log) {
-            console.log(
-              `LogM8: Filter '${filterConfig}' not found for appender ${appenderConfig.name}.`,
-            );
-          }
-        }
-      }
+    if (options.watch) {
+      this._stopConfigWatch = watchConfigFile(
+        path,
+        () => this._reloadConfigFile(path, options.parser),
+        options.debounce,
+      );
+    }
+  }
+  /* NODEJS:END */
 
-      appender.init(appenderConfig, formatter, filters);
-      this._appenders.push(appender);
+  /**
+   * Applies configuration changes to the running logging system.
+   *
+   * The given options are merged over the current configuration (top-level keys
+   * replace the previous values). Unlike init(), existing logger objects are kept and
+   * their levels re-applied in place, and appenders and global filters whose
+   * configuration is unchanged keep running; only added, changed or removed ones are
+   * created or disposed. Removed appenders are flushed before they are disposed, so
+   * no events logged before or during the change are lost. Logger levels are derived
+   * from the merged configuration again, replacing levels set at runtime via setLevel().
+   *
+   * Calls init() with the given configuration when the system is not initialized.
+   *
+   * @param config - Configuration options to change
+   * @returns Promise resolving once removed appenders have flushed and been disposed
+   *
+   * @throws {Error} When referenced plugin factories are not registered, or when the
+   *   merged configuration is invalid and `validation` is 'strict'; the previous
+   *   appenders and filters are kept in that case
+   *
+   * @example
+   * ```typescript
+   * const logger = Logging.getLogger('app.database');
+   *
+   * await Logging.reconfigure({ loggers: { 'app.database': 'debug' } });
+   * logger.isDebug; // true - the same logger object was updated
+   * ```
+   */
+  public async reconfigure(config: LoggingConfig): Promise<void> {
+    if (!this._initialized) {
+      this.init(config);
+      return;
     }
+    const merged = { ...this._config, ...config };
+    this._validateOrWarn(merged, merged.validation);
+    await this._applyConfig(merged);
+  }
 
-    // Sort the appenders by their priority
-    this._sortAppenders();
+  /**
+   * Validates a logging configuration without applying it.
+   *
+   * Checks the LoggingConfig options and every appender, formatter and filter config
+   * against the common options of its plugin kind and the schema of its factory
+   * (PluginFactory.schema). Plugin names must reference registered factories. Every
+   * problem is reported, each with the JSON path of the offending value.
+   *
+   * @param config - Configuration to validate, e.g. parsed from a file
+   * @returns Problems found, empty when the configuration is valid
+   *
+   * @example
+   * ```typescript
+   * Logging.validateConfig({ level: 'verbose', appenders: [{ name: 'console', formater: 'json-formatter' }] });
+   * // [
+   * //   { path: '$.level', message: 'must be one of "off", "fatal", ..., got "verbose"' },
+   * //   { path: '$.appenders[0].formater', message: "unknown property 'formater' (did you mean 'formatter'?)" }
+   * // ]
+   * ```
+   */
+  public validateConfig(config: unknown): ConfigProblem[] {
+    return this._validator.validate(config);
+  }
 
-    // Set up global filters
-    for (const filterConfig of config.filters ?? []) {
-      const filter = this._pluginManager.createPlugin(PluginKind.filter, filterConfig);
-      if (filter) {
-        this._filters.push(filter as Filter);
-      } else {
-        if (console && console.log) {
-          console.log(`LogM8: Filter '${filterConfig}' not found (global).`);
-        }
-      }
-    }
+  /**
+   * Generates a JSON Schema (draft-07) document describing LoggingConfig.
+   *
+   * Appender, formatter and filter entries are described per registered plugin factory,
+   * using the schema each factory contributes (PluginFactory.schema), so custom plugins
+   * registered before this call are covered too. Level options also accept the custom
+   * levels of the current configuration. Editors can use the document to autocomplete
+   * and validate configuration files; the package also ships the schema for the
+   * built-in plugins and levels as `@ncoderz/log-m8/schema`.
+   *
+   * @returns The JSON Schema document
+   *
+   * @example
+   * ```typescript
+   * Logging.registerPluginFactory(new SlackAppenderFactory());
+   * writeFileSync('logging.schema.json', JSON.stringify(Logging.getConfigSchema(), null, 2));
+   * // logging.json: { "$schema": "./logging.schema.json", "level": "info", ... }
+   * ```
+   */
+  public getConfigSchema(): Record<string, unknown> {
+    return this._validator.toJsonSchema(this._customLevels.map((l) => l.name));
+  }
 
-    this._initialized = true;
+  /**
+   * Registers a handler for internal failures of the logging system.
+   *
+   * Failures such as appenders throwing on write or flush, file streams that cannot be
+   * opened, background file rotation errors, failed config file reloads and plugins
+   * failing to dispose never throw into application code. Each is delivered to the
+   * handlers as an InternalError with its source, phase and underlying error, in
+   * addition to the console output selected by LoggingConfig.diagnostics.
+   *
+   * Handlers stay registered across init() and are removed by dispose().
+   *
+   * @param handler - Called synchronously with every internal failure
+   * @returns Function that unregisters the handler
+   *
+   * @example
+   * ```typescript
+   * const off = Logging.onInternalError((e) => {
+   *   alerting.notify(`${e.source} failed during ${e.phase}: ${e.message}`, e.error);
+   * });
+   * ```
+   */
+  public onInternalError(handler: InternalErrorHandler): () => void {
+    this._internalErrorHandlers.push(handler);
+    return () => {
+      this._internalErrorHandlers = this._internalErrorHandlers.filter((h) => h !== handler);
+    };
+  }
+
+  /**
+   * Returns counters of the event pipeline, per level and per appender.
+   *
+   * Reports how many events were created, denied by global filters, denied by appender
+   * filters, written, and failed in an appender's write(), plus how many events logged
+   * before init() were dropped because the buffer was full. Useful to alert on silent
+   * log loss, and to verify filter configurations in tests.
+   *
+   * Counters accumulate across init() and reconfigure() until resetStats() or dispose().
+   *
+   * @returns Snapshot of the counters
+   *
+   * @example
+   * ```typescript
+   * const { total, dropped } = Logging.getStats();
+   * if (dropped > 0 || total.failed > 0) alert('log events were lost');
+   * ```
+   */
+  public getStats(): LogStats {
+    return this._stats.snapshot();
+  }
+
+  /**
+   * Resets all counters reported by getStats() to zero.
+   */
+  public resetStats(): void {
+    this._stats.reset();
   }
 
   /**
    * Shuts down the logging system and releases all resources.
    *
    * Flushes all appenders, disposes plugin instances, clears logger registry,
-   * discards buffered events, and deregisters plugin factories. The system
-   * can be reinitialized after disposal.
+   * discards buffered events, and deregisters plugin factories, including the
+   * built-in ones. The system can be reinitialized after disposal once the needed
+   * factories are registered again, e.g. via registerBuiltInPluginFactories().
+   *
+   * The returned Promise resolves once every appender has flushed and finished
+   * disposing, i.e. all events logged before the call have been written out.
    *
    * @example
    * ```typescript
    * // Graceful shutdown
-   * await new Promise(resolve => {
-   *   Logging.flushAppenders();
-   *   setTimeout(() => {
-   *     Logging.dispose();
-   *     resolve();
-   *   }, 100);
-   * });
+   * await Logging.dispose();
+   * process.exit(0);
    * ```
    */
-  public dispose(): void {
+  public async dispose(): Promise<void> {
     // Reset to initial state (flushes appenders, disposes all plugins)
-    this._reset();
+    const reset = this._reset();
 
     // Clear the log buffer
     this._logBuffer = [];
@@ -243,6 +580,12 @@ class LogM8 {
     this._pluginManager.clearFactories();
 
     this._initialized = false;
+
+    // Failures while flushing and disposing are still reported as configured
+    await reset;
+    this._internalErrorHandlers = [];
+    this._diagnostics = {};
+    this._stats.reset();
   }
 
   /**
@@ -259,8 +602,15 @@ class LogM8 {
    *
    * Logger instances are cached and reused for the same name. Names can be
    * provided as strings with dot-separation or as array segments that get
-   * joined. Each logger maintains independent level and context settings.
+   * joined. Each logger maintains independent context settings. A new logger
+   * without an explicit level inherits the level of its nearest ancestor that
+   * has one (e.g. 'app.database.queries' inherits from 'app.database'), falling
+   * back to the global level.
    *
+   * Loggers have a method and an `is<Name>` flag for each level declared in
+   * LoggingConfig.customLevels; pass the level names as type argument to type them.
+   *
+   * @typeParam L - Names of the configured custom levels
    * @param name - Logger name as string ('app.service') or segments (['app', 'service'])
    * @returns Logger instance for the specified name
    *
@@ -274,14 +624,14 @@ class LogM8 {
    * logger1.setContext({ service: 'postgres' });
    * ```
    */
-  public getLogger(name: string | string[]): Log {
+  public getLogger<L extends string = never>(name: string | string[]): CustomLevelLog<L> {
     let nameStr: string = name as string;
     if (Array.isArray(name)) {
       nameStr = name.join('.');
     }
 
     const existingLogger = this._loggers.get(nameStr);
-    if (existingLogger) return existingLogger;
+    if (existingLogger) return existingLogger as unknown as CustomLevelLog<L>;
 
     const logger: LogImpl = {
       name: nameStr,
@@ -296,22 +646,58 @@ class LogM8 {
     logger.debug = this._log.bind(this, logger, LogLevel.debug);
     logger.trace = this._log.bind(this, logger, LogLevel.trace);
     logger.track = this._log.bind(this, logger, LogLevel.track);
+    this._bindCustomLevels(logger);
 
     logger.setLevel = this._setLevel.bind(this, logger);
     logger.setContext = this._setContext.bind(this, logger);
     logger.getLogger = (name) => this.getLogger([logger.name, name]);
+    logger.child = this._createChildLogger.bind(this, logger);
 
-    // Set initial level and context
-    this._setLevel(logger, this._globalLogLevel);
+    // Set initial level (inherited from the nearest configured ancestor)
+    this._applyLevel(logger, this._resolveInheritedLevel(logger.name));
 
     this._loggers.set(logger.name, logger);
 
-    return logger;
+    return logger as unknown as CustomLevelLog<L>;
+  }
+
+  /**
+   * Runs a function with ambient context merged into every log event it produces.
+   *
+   * In Node.js the context follows the whole async call tree of `fn` (backed by
+   * AsyncLocalStorage), so loggers do not need to be threaded through the call graph.
+   * In the browser the context only applies while `fn` runs synchronously.
+   *
+   * Nested calls merge with the enclosing ambient context. A logger's own context
+   * (setContext/child) takes precedence over ambient fields with the same key.
+   *
+   * @param context - Fields to add to the context of events logged within `fn`
+   * @param fn - Function to run
+   * @returns The return value of `fn`
+   *
+   * @example
+   * ```typescript
+   * app.use((req, res, next) => {
+   *   Logging.runWithContext({ requestId: req.id }, next);
+   * });
+   *
+   * // Anywhere further down the call tree
+   * logger.info('Order created'); // context: { requestId }
+   * ```
+   */
+  public runWithContext<R>(context: LogContext, fn: () => R): R {
+    const ambient = this._contextStorage.getStore();
+    return this._contextStorage.run(ambient ? { ...ambient, ...context } : { ...context }, fn);
   }
 
   /**
    * Sets the global logging level or a specific logger's level.
    *
+   * The global level is the default for loggers without a level of their own and caps
+   * what every logger emits. Giving a logger a more verbose level (here, via its own
+   * setLevel() or the `loggers` config) raises that cap so the logger's events are
+   * emitted; setting the global level again caps all loggers at it.
+   *
    * @param level - New logging level name (e.g., 'info', 'debug', 'off')
    * @param logger - Optional logger name to set level for a specific logger
    */
@@ -349,6 +735,30 @@ class LogM8 {
     appender.enabled = false;
   }
 
+  /**
+   * Sets the minimum severity written by an appender.
+   *
+   * Overrides AppenderConfig.level; an explicit AppenderConfig.levels set still applies.
+   * Invalid level names are ignored.
+   *
+   * @param name - Name of the appender
+   * @param level - New minimum level (e.g., 'error'); 'off' stops all output
+   *
+   * @example
+   * ```typescript
+   * Logging.setAppenderLevel('console', 'debug');
+   * ```
+   */
+  public setAppenderLevel(name: string, level: string | LogLevelType): void {
+    const appender = this._getAppender(name);
+    const levelNumber = this._parseLevelNumber(level);
+    if (!appender || levelNumber === undefined) return;
+
+    const threshold = this._appenderLevels.get(appender);
+    if (threshold) threshold.levelNumber = levelNumber;
+    else this._appenderLevels.set(appender, { levelNumber });
+  }
+
   /**
    * Forces an appender to flush any buffered output.
    *
@@ -356,29 +766,24 @@ class LogM8 {
    * Useful for ensuring data persistence before shutdown or at intervals.
    *
    * @param name - Name of the appender to flush
+   * @returns Promise resolving once the appender has written out all buffered output
    */
-  public flushAppender(name: string): void {
+  public async flushAppender(name: string): Promise<void> {
     const appender = this._getAppender(name);
     if (!appender) return;
-    try {
-      appender.flush();
-    } catch (err) {
-      if (console && console.error) {
-        console.error(`LogM8: Failed to flush appender: ${appender.name}:`, err);
-      }
-    }
+    await this._flushAppender(appender);
   }
 
   /**
    * Flushes all configured appenders.
    *
-   * Iterates through all appenders calling flush on each, with individual
-   * error handling per appender.
+   * Calls flush on each appender concurrently, with individual error handling
+   * per appender.
+   *
+   * @returns Promise resolving once every appender has written out all buffered output
    */
-  public flushAppenders(): void {
-    for (const appender of this._appenders) {
-      this.flushAppender(appender.name);
-    }
+  public async flushAppenders(): Promise<void> {
+    await Promise.all(this._appenders.map((appender) => this._flushAppender(appender)));
   }
 
   /**
@@ -462,6 +867,320 @@ class LogM8 {
     this._pluginManager.registerPluginFactory(pluginFactory);
   }
 
+  private _validateOrWarn(config: LoggingConfig, mode: ConfigValidationMode = 'lenient'): void {
+    if (mode === 'off') return;
+    const problems = this.validateConfig(config);
+    if (problems.length === 0) return;
+
+    if (mode === 'strict') {
+      throw new Error(`LogM8: Invalid configuration:\n${ConfigValidator.formatProblems(problems)}`);
+    }
+    // The config is not applied yet, but its diagnostics settings already apply to it
+    this._reportInternalError(
+      {
+        severity: 'warn',
+        source: INTERNAL_SOURCE,
+        phase: 'config',
+        message: `Configuration problems:\n${ConfigValidator.formatProblems(problems)}`,
+      },
+      config.diagnostics ?? {},
+    );
+  }
+
+  private _applyConfig(config: LoggingConfig): Promise<void> {
+    // Order the levels first, as appenders resolve their level thresholds on creation.
+    // Appenders are therefore recreated rather than kept when the custom levels change.
+    const previousCustomLevels = this._customLevels;
+    const customLevels = config.customLevels ?? [];
+    const levelsChanged = JSON.stringify(customLevels) !== JSON.stringify(previousCustomLevels);
+    if (levelsChanged) this._setLogLevels(customLevels);
+
+    // Create new appenders and filters first, so a failure leaves the current setup intact
+    const previousAppenders = this._appenderEntries;
+    const previousFilters = this._filterEntries;
+    const appenderEntries: AppenderEntry[] = [];
+    const filterEntries: FilterEntry[] = [];
+    try {
+      for (const appenderConfigOrName of config.appenders ?? DEFAULT_APPENDERS) {
+        const key = JSON.stringify(appenderConfigOrName);
+        const index = levelsChanged
+          ? -1
+          : previousAppenders.findIndex((entry) => entry.key === key);
+        appenderEntries.push(
+          index >= 0
+            ? previousAppenders.splice(index, 1)[0]
+            : this._createAppender(appenderConfigOrName, key),
+        );
+      }
+
+      for (const filterConfig of config.filters ?? []) {
+        const key = JSON.stringify(filterConfig);
+        const index = previousFilters.findIndex((entry) => entry.key === key);
+        if (index >= 0) {
+          filterEntries.push(previousFilters.splice(index, 1)[0]);
+          continue;
+        }
+        const filter = this._pluginManager.createPlugin(PluginKind.filter, filterConfig);
+        if (filter) {
+          filterEntries.push({ key, filter: filter as Filter, created: true });
+        } else {
+          this._reportInternalError({
+            severity: 'warn',
+            source: INTERNAL_SOURCE,
+            phase: 'config',
+            message: `Filter '${filterConfig}' not found (global).`,
+          });
+        }
+      }
+    } catch (err) {
+      // Put reused entries back and discard the ones created for this config
+      for (const entry of appenderEntries) {
+        if (entry.created) void this._disposeAppender(entry);
+        else previousAppenders.push(entry);
+      }
+      for (const entry of filterEntries) {
+        if (entry.created) void this._pluginManager.disposePlugin(entry.filter);
+        else previousFilters.push(entry);
+      }
+      if (levelsChanged) this._setLogLevels(previousCustomLevels);
+      throw err;
+    }
+    this._config = config;
+    if (levelsChanged) this._rebindCustomLevels(previousCustomLevels);
+    config = this._withEnvOverrides(config);
+    this._diagnostics = config.diagnostics ?? {};
+
+    // Set the global logging level
+    this._loggerLevels.clear();
+    this._loggerConfigs.clear();
+    this.setLevel(config.level ?? LogLevel.info);
+
+    // Set up loggers
+    for (const [name, l] of Object.entries(config.loggers ?? {})) {
+      if (l !== null && typeof l === 'object') {
+        // Object form: level is optional, appenders/additive control routing for the subtree
+        if (l.appenders?.length || l.additive === false) this._loggerConfigs.set(name, l);
+        if (l.level === undefined) continue;
+      }
+      const levelStr = ((typeof l === 'object' ? l?.level : l) ?? '').trim().toLowerCase();
+      const logger = this.getLogger(name);
+      const level = this._logLevelSet.has(levelStr as LogLevelType)
+        ? (levelStr as LogLevelType)
+        : this._globalLogLevel;
+      logger.setLevel(level);
+    }
+
+    // Re-apply inherited levels to existing loggers without an explicit level
+    for (const [name, logger] of this._loggers) {
+      if (!this._loggerLevels.has(name)) {
+        this._applyLevel(logger as LogImpl, this._resolveInheritedLevel(name));
+      }
+    }
+
+    // Swap in the appenders, sorted by their priority
+    for (const entry of appenderEntries) entry.created = false;
+    this._appenderEntries = appenderEntries;
+    this._appenders = appenderEntries.map((entry) => entry.appender);
+    this._sortAppenders();
+    this._routedAppenders.clear();
+
+    // Swap in the global filters
+    for (const entry of filterEntries) entry.created = false;
+    this._filterEntries = filterEntries;
+    this._filters = filterEntries.map((entry) => entry.filter);
+
+    this._interpolate = config.interpolate === true;
+    this._locationCapture = undefined;
+    if (config.captureLocation) {
+      const { loggers, levels }: CaptureLocationConfig =
+        config.captureLocation === true ? {} : config.captureLocation;
+      this._locationCapture = { loggers, levels: levels && new Set(levels.map(normalizeLevel)) };
+    }
+
+    // Set up capture of global console calls
+    this._removeConsoleCapture();
+    if (config.captureConsole) {
+      this._installConsoleCapture(config.captureConsole === true ? {} : config.captureConsole);
+    }
+
+    // Set up capture of uncaught errors
+    this._removeErrorCapture();
+    if (config.captureErrors) {
+      this._installErrorCapture(config.captureErrors === true ? {} : config.captureErrors);
+    }
+
+    /* NODEJS:START */
+    // Set up graceful shutdown hooks
+    this._removeShutdownHooks();
+    if (config.shutdown) {
+      this._installShutdownHooks(config.shutdown === true ? {} : config.shutdown);
+    }
+    /* NODEJS:END */
+
+    // Removed appenders write out what they already received before they are disposed
+    return Promise.all([
+      ...previousAppenders.map((entry) => this._disposeAppender(entry)),
+      ...previousFilters.map((entry) => this._pluginManager.disposePlugin(entry.filter)),
+    ]).then(() => undefined);
+  }
+
+  private _withEnvOverrides(config: LoggingConfig): LoggingConfig {
+    if (!config.env) return config;
+    const envConfig: EnvConfig = config.env === true ? {} : config.env;
+    const prefix = envConfig.prefix ?? DEFAULT_ENV_PREFIX;
+    const debugVar = envConfig.debug ?? DEFAULT_ENV_DEBUG;
+    let env = envConfig.source ?? {};
+    /* NODEJS:START */
+    env = envConfig.source ?? process.env;
+    /* NODEJS:END */
+
+    const configuredLevel = config.level ?? LogLevel.info;
+    let level = configuredLevel;
+    const loggers = { ...config.loggers };
+    const setLoggerLevel = (name: string, l: LogLevelType) => {
+      const current = loggers[name];
+      loggers[name] = typeof current === 'object' ? { ...current, level: l } : l;
+    };
+    const levelOf = (name: string) => {
+      const current = loggers[name];
+      return typeof current === 'object' ? current.level : current;
+    };
+    // Raise a level to at least debug, keeping more verbose levels
+    const atLeastDebug = (l: string | undefined) =>
+      this._logLevelValues.indexOf(l as LogLevelType) > this._logLevelValues.indexOf('debug')
+        ? (l as LogLevelType)
+        : LogLevel.debug;
+
+    // 2. DEBUG-style namespace list (':' separators and '*' wildcards are accepted)
+    const debugList = debugVar ? env[debugVar] : undefined;
+    for (const entry of (debugList ?? '').split(/[\s,]+/)) {
+      const exclude = entry.startsWith('-');
+      const name = entry
+        .slice(exclude ? 1 : 0)
+        .replace(/:/g, '.')
+        .replace(/\.?\*$/, '');
+      if (!entry || (exclude && !name)) continue;
+      if (!name) {
+        level = atLeastDebug(level);
+      } else if (exclude) {
+        setLoggerLevel(name, configuredLevel as LogLevelType);
+      } else {
+        setLoggerLevel(name, atLeastDebug(levelOf(name)));
+      }
+    }
+
+    // Invalid entries are reported and skipped rather than silently treated as the global level
+    const reportInvalid = (variable: string, value: string) =>
+      this._reportInternalError(
+        {
+          severity: 'warn',
+          source: INTERNAL_SOURCE,
+          phase: 'config',
+          message: `Ignoring invalid ${variable} entry '${value}': expected a level name`,
+        },
+        config.diagnostics ?? {},
+      );
+
+    // 3. Per-logger levels, e.g. 'app.db=trace,app.http=warn'
+    const loggersVar = `${prefix}LOGGERS`;
+    for (const entry of (env[loggersVar] ?? '').split(',')) {
+      if (!entry.trim()) continue;
+      const [name, l, ...rest] = entry.split('=').map((part) => part.trim());
+      const entryLevel = normalizeLevel(l ?? '');
+      if (name && !rest.length && this._logLevelSet.has(entryLevel)) {
+        setLoggerLevel(name, entryLevel);
+      } else {
+        reportInvalid(loggersVar, entry.trim());
+      }
+    }
+
+    // 4. Global level
+    const levelVar = `${prefix}LEVEL`;
+    const envLevel = env[levelVar]?.trim();
+    if (envLevel) {
+      if (this._logLevelSet.has(normalizeLevel(envLevel))) level = normalizeLevel(envLevel);
+      else reportInvalid(levelVar, envLevel);
+    }
+
+    return { ...config, level, loggers };
+  }
+
+  private _createAppender(
+    appenderConfigOrName: string | AppenderConfig,
+    key: string,
+  ): AppenderEntry {
+    const appender = this._pluginManager.createPlugin(
+      PluginKind.appender,
+      appenderConfigOrName,
+    ) as Appender;
+    const entry: AppenderEntry = { key, appender, plugins: [appender], created: true };
+
+    try {
+      const appenderConfig: AppenderConfig = LogM8Utils.isString(appenderConfigOrName)
+        ? {
+            name: appender.name,
+          }
+        : (appenderConfigOrName as AppenderConfig);
+
+      const formatter = appenderConfig?.formatter
+        ? (this._pluginManager.createPlugin(
+            PluginKind.formatter,
+            appenderConfig.formatter,
+          ) as Formatter)
+        : undefined;
+      if (formatter) entry.plugins.push(formatter);
+      formatter?.setCustomLevels?.(this._customLevels);
+
+      const filters: Filter[] = [];
+      const ac = appenderConfig as AppenderConfig;
+      for (const filterConfig of ac.filters ?? []) {
+        const filter = this._pluginManager.createPlugin(PluginKind.filter, filterConfig);
+        if (filter) {
+          filters.push(this._countDenials(filter as Filter));
+          entry.plugins.push(filter);
+        } else {
+          this._reportInternalError({
+            severity: 'warn',
+            source: INTERNAL_SOURCE,
+            phase: 'config',
+            message: `Filter '${filterConfig}' not found for appender ${appenderConfig.name}.`,
+          });
+        }
+      }
+
+      appender.setCustomLevels?.(this._customLevels);
+      appender.init(appenderConfig, formatter, filters);
+
+      const levelNumber = this._parseLevelNumber(appenderConfig.level);
+      if (levelNumber !== undefined || appenderConfig.levels) {
+        this._appenderLevels.set(appender, {
+          levelNumber,
+          levels: appenderConfig.levels && new Set(appenderConfig.levels.map(normalizeLevel)),
+        });
+      }
+
+      if (appenderConfig.loggers) {
+        this._appenderRoutes.set(
+          appender,
+          LogM8Utils.compileLoggerPatterns(appenderConfig.loggers),
+        );
+      }
+    } catch (err) {
+      void this._disposeAppender(entry);
+      throw err;
+    }
+
+    return entry;
+  }
+
+  private async _disposeAppender(entry: AppenderEntry): Promise<void> {
+    this._appenderLevels.delete(entry.appender);
+    this._appenderRoutes.delete(entry.appender);
+
+    await this._flushAppender(entry.appender);
+    await Promise.all(entry.plugins.map((plugin) => this._pluginManager.disposePlugin(plugin)));
+  }
+
   private _log(
     logger: LogImpl,
     level: LogLevelType,
@@ -471,41 +1190,216 @@ class LogM8 {
     // Early return if level not enabled - O(1) performance for disabled logs
     const levelNumber = this._logLevelValues.indexOf(level);
     if (levelNumber > logger._levelNumber || levelNumber > this._globalLogLevelNumber) return;
+    // Child loggers may keep methods of custom levels removed by reconfigure()
+    if (levelNumber < 0) return;
+
+    // Merge any ambient context from runWithContext() beneath the logger's own context
+    const ambient = this._contextStorage.getStore();
+    const context = ambient ? { ...ambient, ...logger.context } : logger.context;
+
+    // Stack traces are only taken when location capture is enabled for this logger and level
+    const location =
+      this._locationCapture && this._shouldCaptureLocation(logger.name, level)
+        ? this._captureLocation()
+        : undefined;
 
     // Create a log event for the log
-    const logEvent: LogEvent = {
-      logger: logger.name,
-      level,
-      message,
-      data,
-      context: logger.context,
-      timestamp: new Date(),
-    };
+    const logEvent: LogEvent =
+      typeof message === 'function'
+        ? this._createLazyLogEvent(
+            logger,
+            level,
+            context,
+            location,
+            message as LogMessageFactory,
+            data,
+          )
+        : {
+            logger: logger.name,
+            level,
+            message,
+            data,
+            context,
+            timestamp: new Date(),
+            // Only present when captured, so serialized events carry no empty location key
+            ...(location && { location }),
+          };
+    this._stats.count('created', levelNumber);
 
     if (this._initialized) {
-      // Process buffered log events first (FIFO order)
-      if (this._logBuffer.length > 0) {
-        for (const bufferedEvent of this._logBuffer) {
-          this._processLogEvent(bufferedEvent);
-        }
-        this._logBuffer = []; // Clear the buffer after processing
-      }
-
-      // Process the log event immediately
       this._processLogEvent(logEvent);
     } else {
       // Buffer the log events until initialization is complete
-      if (this._logBuffer.length >= MAX_LOG_BUFFER_SIZE) {
-        this._logBuffer.shift(); // Drop the oldest event if buffer is full
+      this._bufferLogEvent(logEvent);
+    }
+  }
+
+  private _bufferLogEvent(logEvent: LogEvent): void {
+    const { size, overflow } = this._bufferConfig;
+    if (this._logBuffer.length >= size) {
+      this._discardedEvents++;
+      this._stats.countDropped();
+      // 'drop-newest' and 'keep-first' discard the incoming event
+      if (overflow !== 'drop-oldest' || size === 0) return;
+      this._logBuffer.shift();
+    }
+    this._logBuffer.push(logEvent);
+  }
+
+  private _flushLogBuffer(): void {
+    const buffered = this._logBuffer;
+    const discarded = this._discardedEvents;
+    this._logBuffer = [];
+    this._discardedEvents = 0;
+
+    // Process buffered log events in FIFO order
+    for (const bufferedEvent of buffered) {
+      this._processLogEvent(bufferedEvent);
+    }
+
+    if (discarded > 0) {
+      const { size, overflow } = this._bufferConfig;
+      this._log(
+        this.getLogger(BUFFER_LOGGER) as LogImpl,
+        LogLevel.warn,
+        `Discarded ${discarded} event(s) logged before init(): the buffer holds ${size} (overflow: ${overflow})`,
+        { discarded, size, overflow },
+      );
+    }
+  }
+
+  private _createLazyLogEvent(
+    logger: LogImpl,
+    level: LogLevelType,
+    context: LogContext,
+    location: LogLocation | undefined,
+    factory: LogMessageFactory,
+    extraData: unknown[],
+  ): LogEvent {
+    // Message and data are produced on first access, i.e. only once an event has passed
+    // the level check and any global filter that does not itself inspect them
+    let resolved: { message: unknown; data: unknown[] } | undefined;
+    const resolve = () => (resolved ??= this._resolveLogMessage(factory, extraData));
+
+    return Object.defineProperties(
+      {
+        logger: logger.name,
+        level,
+        context,
+        timestamp: new Date(),
+        ...(location && { location }),
+      },
+      {
+        message: { get: () => resolve().message, enumerable: true },
+        data: { get: () => resolve().data, enumerable: true },
+      },
+    ) as LogEvent;
+  }
+
+  private _resolveLogMessage(
+    factory: LogMessageFactory,
+    extraData: unknown[],
+  ): { message: unknown; data: unknown[] } {
+    try {
+      const result = factory();
+      if (Array.isArray(result)) {
+        return { message: result[0], data: [...result.slice(1), ...extraData] };
       }
-      this._logBuffer.push(logEvent);
+      return { message: result, data: extraData };
+    } catch (err) {
+      return { message: 'LogM8: Failed to evaluate lazy log message', data: [err, ...extraData] };
+    }
+  }
+
+  private _shouldCaptureLocation(name: string, level: LogLevelType): boolean {
+    const { loggers, levels } = this._locationCapture!;
+    if (levels && !levels.has(level)) return false;
+    return !loggers || loggers.some((l) => name === l || name.startsWith(l + '.'));
+  }
+
+  private _captureLocation(): LogLocation | undefined {
+    const stack = new Error().stack;
+    if (!stack) return undefined;
+
+    // The first parsed frame is this module; skip every frame from the same file
+    // (all of log-m8 when bundled) to reach the caller
+    let ownFile: string | undefined;
+    for (const line of stack.split('\n')) {
+      const frame = LogM8Utils.parseStackFrame(line);
+      if (!frame) continue;
+      ownFile ??= frame.file;
+      if (frame.file !== ownFile) return frame;
+    }
+    return undefined;
+  }
+
+  private _interpolateLogEvent(event: LogEvent): LogEvent {
+    // Reading a lazy message runs its factory, so lazy events are interpolated on first
+    // access too, keeping the factory from running for events denied by global filters
+    if (Object.getOwnPropertyDescriptor(event, 'message')?.get) {
+      let interpolated: LogEvent | undefined;
+      const resolve = () => (interpolated ??= this._interpolateMessage(event));
+      return Object.defineProperties(
+        {},
+        {
+          ...Object.getOwnPropertyDescriptors(event),
+          message: { get: () => resolve().message, enumerable: true },
+          data: { get: () => resolve().data, enumerable: true },
+          template: { get: () => resolve().template, enumerable: true },
+          args: { get: () => resolve().args, enumerable: true },
+        },
+      ) as LogEvent;
     }
+    return this._interpolateMessage(event);
+  }
+
+  private _interpolateMessage(event: LogEvent): LogEvent {
+    const { message, data } = event;
+    if (typeof message !== 'string' || event.template !== undefined) return event;
+
+    const interpolated = LogM8Utils.interpolateMessage(message, data);
+    if (!interpolated) return event;
+
+    return {
+      ...event,
+      message: interpolated.message,
+      data: interpolated.data,
+      template: message,
+      args: data,
+    };
   }
 
   private _setLevel(logger: LogImpl, level: string | LogLevelType): void {
     const levelStr = (level ?? '').trim().toLowerCase() as LogLevelType;
+    if (!this._logLevelSet.has(levelStr)) return;
+
+    // Record the explicit level, then push it down to descendants without their own
+    this._loggerLevels.set(logger.name, levelStr);
+    this._applyLevel(logger, levelStr);
+    this._globalLogLevelNumber = Math.max(this._globalLogLevelNumber, logger._levelNumber);
+
+    const prefix = logger.name + '.';
+    for (const [name, child] of this._loggers) {
+      if (!name.startsWith(prefix) || this._loggerLevels.has(name)) continue;
+      this._applyLevel(child as LogImpl, this._resolveInheritedLevel(name));
+    }
+  }
 
-    logger.level = this._logLevelSet.has(levelStr) ? levelStr : logger.level;
+  private _resolveInheritedLevel(name: string): LogLevelType {
+    // Walk up the dot-separated hierarchy to the nearest logger with an explicit level
+    let parentName = name;
+    let dotIndex = parentName.lastIndexOf('.');
+    while (dotIndex > 0) {
+      parentName = parentName.slice(0, dotIndex);
+      const level = this._loggerLevels.get(parentName);
+      if (level) return level;
+      dotIndex = parentName.lastIndexOf('.');
+    }
+    return this._globalLogLevel;
+  }
+
+  private _applyLevel(logger: LogImpl, level: LogLevelType): void {
+    logger.level = level;
     logger._levelNumber = this._logLevelValues.indexOf(logger.level);
 
     logger.isEnabled = logger.level !== LogLevel.off;
@@ -518,34 +1412,182 @@ class LogM8 {
     logger.isDebug = this._logLevelValues.indexOf(LogLevel.debug) <= levelNumber;
     logger.isTrack = this._logLevelValues.indexOf(LogLevel.track) <= levelNumber;
     logger.isTrace = this._logLevelValues.indexOf(LogLevel.trace) <= levelNumber;
+
+    const flags = logger as unknown as Record<string, boolean>;
+    for (const { name } of this._customLevels) {
+      flags[levelFlag(name)] = this._logLevelValues.indexOf(name as LogLevelType) <= levelNumber;
+    }
+  }
+
+  private _bindCustomLevels(logger: LogImpl): void {
+    const methods = logger as unknown as Record<string, unknown>;
+    for (const { name } of this._customLevels) {
+      methods[name] = this._log.bind(this, logger, name as LogLevelType);
+    }
+  }
+
+  private _setLogLevels(customLevels: CustomLevelConfig[]): void {
+    const levels: LogLevelType[] = Object.values(LogLevel);
+    for (const [i, customLevel] of customLevels.entries()) {
+      const { name, above, below } = customLevel ?? {};
+      const where = `LogM8: Custom level '${name}' (customLevels[${i}])`;
+      if (typeof name !== 'string' || !CUSTOM_LEVEL_NAME.test(name)) {
+        throw new Error(`${where} must be named with lowercase letters and digits.`);
+      }
+      if (levels.includes(name as LogLevelType) || RESERVED_LEVEL_NAMES.has(name)) {
+        throw new Error(`${where} is already defined or reserved.`);
+      }
+      if ((above === undefined) === (below === undefined)) {
+        throw new Error(`${where} must be placed either 'above' or 'below' another level.`);
+      }
+      const relativeTo = normalizeLevel((above ?? below)!);
+      const index = levels.indexOf(relativeTo as LogLevelType);
+      if (index < 1) {
+        throw new Error(`${where} cannot be placed relative to '${relativeTo}'.`);
+      }
+      // Levels are ordered from 'off' through the most severe to the most verbose
+      levels.splice(above !== undefined ? index : index + 1, 0, name as LogLevelType);
+    }
+
+    this._customLevels = customLevels;
+    this._logLevelValues = levels;
+    this._logLevelSet = new Set(levels);
+    this._stats.setLevels(levels);
+  }
+
+  private _rebindCustomLevels(previous: CustomLevelConfig[]): void {
+    // Replace the methods and flags of the previous custom levels on existing loggers;
+    // the flags of the current ones are set when the logger levels are applied
+    for (const logger of this._loggers.values()) {
+      const members = logger as unknown as Record<string, unknown>;
+      for (const { name } of previous) {
+        delete members[name];
+        delete members[levelFlag(name)];
+      }
+      this._bindCustomLevels(logger as LogImpl);
+    }
   }
 
   private _setContext(logger: LogImpl, context: LogContext): void {
     logger.context = context ?? {};
   }
 
+  private _createChildLogger(parent: LogImpl, context: LogContext): Log {
+    // The prototype link shares name, level and level flags with the parent, so level
+    // changes apply to children too; only the context and bound methods are own properties
+    const child = Object.create(parent) as LogImpl;
+    child.context = Object.freeze({ ...parent.context, ...context });
+
+    child.fatal = this._log.bind(this, child, LogLevel.fatal);
+    child.error = this._log.bind(this, child, LogLevel.error);
+    child.warn = this._log.bind(this, child, LogLevel.warn);
+    child.info = this._log.bind(this, child, LogLevel.info);
+    child.debug = this._log.bind(this, child, LogLevel.debug);
+    child.trace = this._log.bind(this, child, LogLevel.trace);
+    child.track = this._log.bind(this, child, LogLevel.track);
+    this._bindCustomLevels(child);
+
+    // Child contexts stay frozen, and levels can only be set on the named logger
+    child.setContext = (ctx: LogContext) => this._setContext(child, Object.freeze({ ...ctx }));
+    child.setLevel = () => {
+      throw new Error(
+        `LogM8: Cannot set the level of a child logger; set it on logger '${child.name}'.`,
+      );
+    };
+    child.child = this._createChildLogger.bind(this, child);
+
+    return child;
+  }
+
   private _processLogEvent(event: LogEvent): void {
+    if (this._interpolate) event = this._interpolateLogEvent(event);
+
+    const levelNumber = this._logLevelValues.indexOf(event.level);
+
     // Filter
     for (const filter of this._filters) {
       if (filter.enabled && !filter.filter(event)) {
+        this._stats.count('filtered', levelNumber);
         return; // Skip if any filter denies logging
       }
     }
 
-    // Process each appender (they should be in their priority order)
-    for (const appender of this._appenders) {
+    // Process each appender routed to this logger (they should be in their priority order)
+    for (const appender of this._getRoutedAppenders(event.logger)) {
       try {
         if (!appender.enabled) continue;
         if (!appender.supportedLevels.has(event.level)) continue;
+        const threshold = this._appenderLevels.get(appender);
+        if (threshold) {
+          if (threshold.levelNumber !== undefined && levelNumber > threshold.levelNumber) continue;
+          if (threshold.levels && !threshold.levels.has(event.level)) continue;
+        }
+        this._writeDenied = false;
         appender.write(event);
+        this._stats.countAppender(
+          appender.name,
+          this._writeDenied ? 'denied' : 'written',
+          levelNumber,
+        );
       } catch (err) {
-        if (console && console.log) {
-          console.log(`LogM8: Failed to append log with '${appender.name}':`, err);
-        }
+        this._stats.countAppender(appender.name, 'failed', levelNumber);
+        this._reportInternalError({
+          severity: 'error',
+          source: appender.name,
+          kind: appender.kind,
+          phase: 'write',
+          message: `Failed to append log with '${appender.name}'`,
+          error: err,
+        });
       }
     }
   }
 
+  private _getRoutedAppenders(logger: string): Appender[] {
+    if (this._appenderRoutes.size === 0 && this._loggerConfigs.size === 0) return this._appenders;
+
+    let appenders = this._routedAppenders.get(logger);
+    if (!appenders) {
+      const { attached, additive } = this._resolveAttachedAppenders(logger);
+      appenders = this._appenders.filter(
+        (a) =>
+          (attached.has(a.name) || (additive && !this._isAttachedAppender(a.name))) &&
+          (this._appenderRoutes.get(a)?.(logger) ?? true),
+      );
+      this._routedAppenders.set(logger, appenders);
+    }
+    return appenders;
+  }
+
+  private _resolveAttachedAppenders(logger: string): { attached: Set<string>; additive: boolean } {
+    // Walk up from the logger collecting attached appenders until a non-additive logger;
+    // reaching the top means events also propagate to the root appenders
+    const attached = new Set<string>();
+    let name = logger;
+    for (;;) {
+      const loggerConfig = this._loggerConfigs.get(name);
+      for (const appender of loggerConfig?.appenders ?? []) attached.add(appender);
+      if (loggerConfig?.additive === false) return { attached, additive: false };
+
+      const dotIndex = name.lastIndexOf('.');
+      if (dotIndex <= 0) return { attached, additive: true };
+      name = name.slice(0, dotIndex);
+    }
+  }
+
+  private _isAttachedAppender(name: string): boolean {
+    // Appenders attached to a logger are not root appenders
+    for (const loggerConfig of this._loggerConfigs.values()) {
+      if (loggerConfig.appenders?.includes(name)) return true;
+    }
+    return false;
+  }
+
+  private _parseLevelNumber(level: string | undefined): number | undefined {
+    const levelStr = (level ?? '').trim().toLowerCase() as LogLevelType;
+    return this._logLevelSet.has(levelStr) ? this._logLevelValues.indexOf(levelStr) : undefined;
+  }
+
   private _getAppender(name: string): Appender | undefined {
     return this._appenders.find((a) => a.name === name);
   }
@@ -563,16 +1605,280 @@ class LogM8 {
     return this._filters.find((f) => f.name === name);
   }
 
-  private _reset(): void {
+  // Flags denials by a filter of an appender, which applies its filters inside write()
+  private _countDenials(filter: Filter): Filter {
+    const filterEvent = filter.filter.bind(filter);
+    filter.filter = (event) => {
+      const allowed = filterEvent(event);
+      if (!allowed) this._writeDenied = true;
+      return allowed;
+    };
+    return filter;
+  }
+
+  private _reportInternalError(
+    report: Omit<InternalError, 'timestamp'>,
+    diagnostics: DiagnosticsConfig = this._diagnostics,
+  ): void {
+    const internalError: InternalError = { ...report, timestamp: new Date() };
+
+    for (const handler of this._internalErrorHandlers) {
+      try {
+        handler(internalError);
+      } catch (_err) {
+        // A failing handler must not keep the failure from the others
+      }
+    }
+
+    const mode = diagnostics.mode ?? 'normal';
+    if (mode !== 'quiet' && typeof console !== 'undefined') {
+      // Bypass captured console methods, which would feed the failure back into LogM8
+      const print = consoleMethod(report.severity === 'warn' ? console.warn : console.error);
+      const tag =
+        mode === 'verbose'
+          ? ` [${report.kind ? `${report.kind} ` : ''}${report.source}, ${report.phase}]`
+          : '';
+      if (report.error !== undefined) print?.(`LogM8${tag}: ${report.message}:`, report.error);
+      else print?.(`LogM8${tag}: ${report.message}`);
+    }
+
+    const loggerName =
+      diagnostics.logger === true ? DEFAULT_INTERNAL_LOGGER : diagnostics.logger || undefined;
+    if (loggerName && !this._loggingInternalError) {
+      this._loggingInternalError = true;
+      try {
+        const { source, kind, phase, message, error } = report;
+        const logger = this.getLogger(loggerName).child({ source, kind, phase });
+        if (error !== undefined) logger[report.severity](message, error);
+        else logger[report.severity](message);
+      } finally {
+        this._loggingInternalError = false;
+      }
+    }
+  }
+
+  private async _flushAppender(appender: Appender): Promise<void> {
+    try {
+      await appender.flush();
+    } catch (err) {
+      this._reportInternalError({
+        severity: 'error',
+        source: appender.name,
+        kind: appender.kind,
+        phase: 'flush',
+        message: `Failed to flush appender: ${appender.name}`,
+        error: err,
+      });
+    }
+  }
+
+  /* NODEJS:START */
+  private _loadConfigFile(path: string, parser: ConfigParser | undefined): LoggingConfig {
+    const config = readConfigFile(path, parser) as LoggingConfig;
+    // Files are edited by hand and reloaded unattended, so problems are never just warnings
+    if (config?.validation !== 'off') {
+      const problems = this.validateConfig(config);
+      if (problems.length > 0) {
+        throw new Error(
+          `LogM8: Invalid config file '${path}':\n${ConfigValidator.formatProblems(problems)}`,
+        );
+      }
+    }
+    return config;
+  }
+
+  private _reloadConfigFile(path: string, parser: ConfigParser | undefined): void {
+    try {
+      void this._applyConfig(this._loadConfigFile(path, parser));
+    } catch (err) {
+      this._reportInternalError({
+        severity: 'error',
+        source: INTERNAL_SOURCE,
+        phase: 'config',
+        message: `Failed to reload '${path}', keeping the last good configuration`,
+        error: err,
+      });
+    }
+  }
+
+  private _installShutdownHooks(config: ShutdownConfig): void {
+    const timeout = config.timeout ?? DEFAULT_SHUTDOWN_TIMEOUT;
+    const loggerName = config.logger ?? DEFAULT_SHUTDOWN_LOGGER;
+
+    const shutdown = (
+      level: LogLevelType,
+      exitCode: number | undefined,
+      message: string | undefined,
+      ...data: unknown[]
+    ) => {
+      // Only triggers that end the process latch; a signal or exception arriving after
+      // beforeExit must still flush and exit, as the listeners replace Node's default
+      if (this._shuttingDown) return;
+      if (exitCode !== undefined) this._shuttingDown = true;
+
+      if (message) this._log(this.getLogger(loggerName) as LogImpl, level, message, ...data);
+
+      // Never let a stuck appender keep the process alive past the timeout
+      const timedOut = new Promise<void>((resolve) => setTimeout(resolve, timeout).unref());
+      void Promise.race([this.flushAppenders(), timedOut]).then(() => {
+        if (exitCode !== undefined) process.exit(exitCode);
+      });
+    };
+
+    // A second signal during the flush exits right away, like a second Ctrl-C normally does
+    const signal = (name: 'SIGINT' | 'SIGTERM') => {
+      if (this._shuttingDown) process.exit(SIGNAL_EXIT_CODES[name]);
+      else shutdown(LogLevel.warn, SIGNAL_EXIT_CODES[name], `Received ${name}, shutting down`);
+    };
+
+    // beforeExit fires again whenever the flush scheduled more work, so it is handled once
+    let exitLogged = false;
+    const handlers: Record<ShutdownEvent, (...args: unknown[]) => void> = {
+      beforeExit: (code) => {
+        if (exitLogged) return;
+        exitLogged = true;
+        shutdown(LogLevel.info, undefined, 'Process exiting', { code });
+      },
+      SIGINT: () => signal('SIGINT'),
+      SIGTERM: () => signal('SIGTERM'),
+      // When uncaught errors are captured, the exception has already been logged
+      uncaughtException: (err) =>
+        shutdown(
+          LogLevel.fatal,
+          1,
+          this._errorCaptureCleanup.length > 0 ? undefined : 'Uncaught exception',
+          err,
+        ),
+    };
+
+    for (const event of config.events ?? DEFAULT_SHUTDOWN_EVENTS) {
+      const handler = handlers[event];
+      if (!handler) continue;
+      process.on(event, handler);
+      this._shutdownListeners.push([event, handler]);
+    }
+  }
+
+  private _removeShutdownHooks(): void {
+    for (const [event, handler] of this._shutdownListeners) {
+      process.off(event, handler);
+    }
+    this._shutdownListeners = [];
+    this._shuttingDown = false;
+  }
+  /* NODEJS:END */
+
+  private _installErrorCapture(config: CaptureErrorsConfig): void {
+    const logger = this.getLogger(config.logger ?? DEFAULT_CAPTURE_LOGGER) as LogImpl;
+    const exceptionLevel = normalizeLevel(config.exceptionLevel ?? LogLevel.fatal);
+    const rejectionLevel = normalizeLevel(config.rejectionLevel ?? LogLevel.error);
+
+    const capture = (rejection: boolean, error: unknown) => {
+      if (rejection) this._log(logger, rejectionLevel, 'Unhandled rejection', error);
+      else this._log(logger, exceptionLevel, 'Uncaught exception', error);
+    };
+
+    if (LogM8Utils.isBrowser()) {
+      const onError = (event: ErrorEvent) => capture(false, event.error ?? event.message);
+      const onRejection = (event: PromiseRejectionEvent) => capture(true, event.reason);
+      window.addEventListener('error', onError);
+      window.addEventListener('unhandledrejection', onRejection);
+      this._errorCaptureCleanup.push(() => {
+        window.removeEventListener('error', onError);
+        window.removeEventListener('unhandledrejection', onRejection);
+      });
+      return;
+    }
+
+    /* NODEJS:START */
+    // The monitor observes failures without altering the process's default crash behavior
+    const onException = (error: unknown, origin: unknown) =>
+      capture(origin === 'unhandledRejection', error);
+    process.on('uncaughtExceptionMonitor', onException);
+    this._errorCaptureCleanup.push(() => process.off('uncaughtExceptionMonitor', onException));
+    /* NODEJS:END */
+  }
+
+  private _removeErrorCapture(): void {
+    for (const cleanup of this._errorCaptureCleanup) {
+      cleanup();
+    }
+    this._errorCaptureCleanup = [];
+  }
+
+  private _installConsoleCapture(config: ConsoleCaptureConfig): void {
+    if (typeof console === 'undefined') return;
+
+    const logger = this.getLogger(config.logger ?? DEFAULT_CONSOLE_LOGGER) as LogImpl;
+    const levels = { ...DEFAULT_CONSOLE_LEVELS, ...config.levels };
+    const target = console as unknown as Record<ConsoleMethod, (...args: unknown[]) => void>;
+    let capturing = false;
+
+    for (const [method, name] of Object.entries(levels) as [ConsoleMethod, string][]) {
+      const level = normalizeLevel(name);
+      const original = target[method];
+      if (typeof original !== 'function' || level === LogLevel.off) continue;
+
+      const patched = (...args: unknown[]) => {
+        // Console calls made while a captured event is processed go straight to the console
+        if (capturing) return original.apply(console, args);
+        capturing = true;
+        try {
+          this._log(logger, level, args[0], ...args.slice(1));
+        } finally {
+          capturing = false;
+        }
+      };
+      Object.defineProperty(patched, ORIGINAL_CONSOLE_METHOD, { value: original });
+      target[method] = patched;
+
+      this._consoleCaptureCleanup.push(() => {
+        // Leave the method alone if someone else has since replaced it
+        if (target[method] === patched) target[method] = original;
+      });
+    }
+  }
+
+  private _removeConsoleCapture(): void {
+    for (const cleanup of this._consoleCaptureCleanup) {
+      cleanup();
+    }
+    this._consoleCaptureCleanup = [];
+  }
+
+  private async _reset(): Promise<void> {
+    this._removeConsoleCapture();
+    this._removeErrorCapture();
+    /* NODEJS:START */
+    this._removeShutdownHooks();
+    this._stopConfigWatch?.();
+    this._stopConfigWatch = undefined;
+    /* NODEJS:END */
+
     // FLush all appenders before disposing
-    this.flushAppenders();
+    const flushed = this.flushAppenders();
 
     this._appenders = [];
+    this._appenderEntries = [];
+    this._filters = [];
+    this._filterEntries = [];
+    this._config = {};
+    this._appenderLevels.clear();
+    this._appenderRoutes.clear();
+    this._routedAppenders.clear();
+    this._loggerConfigs.clear();
     this._loggers.clear();
+    this._loggerLevels.clear();
+    this._setLogLevels([]);
     this._globalLogLevel = LogLevel.info;
+    this._globalLogLevelNumber = this._logLevelValues.indexOf(LogLevel.info);
+    this._interpolate = false;
+    this._locationCapture = undefined;
 
     // Dispose all plugins
-    this._pluginManager.disposePlugins();
+    const disposed = this._pluginManager.disposePlugins();
+
+    await Promise.all([flushed, disposed]);
   }
 }
 
@@ -0,0 +1,19 @@
+import type { BufferConfig } from './BufferConfig.ts';
+
+/**
+ * Options of a LogM8 instance, passed to its constructor.
+ *
+ * Unlike LoggingConfig, these apply from the moment the instance is created,
+ * before init() is called.
+ *
+ * @example
+ * ```typescript
+ * const logging = new LogM8({ buffer: { size: 500, overflow: 'keep-first' } });
+ * ```
+ */
+export interface LogM8Options {
+  /**
+   * Buffer for events logged before init(). See BufferConfig.
+   */
+  buffer?: BufferConfig;
+}
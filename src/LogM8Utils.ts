@@ -1,3 +1,5 @@
+import type { LogLocation } from './LogLocation.ts';
+
 /**
  * Regex pattern for matching timestamp format tokens.
  *
@@ -7,8 +9,36 @@
  */
 const TIMESTAMP_TOKEN_REGEX = /(yyyy|SSS|hh|mm|ss|SS|zz|z|yy|MM|dd|A|a|h|S)/g;
 
+// Regex fragments matching the output of each timestamp format token
+const TIMESTAMP_TOKEN_PATTERNS: Record<string, string> = {
+  yyyy: '\\d{4}',
+  SSS: '\\d{3}',
+  hh: '\\d{2}',
+  mm: '\\d{2}',
+  ss: '\\d{2}',
+  SS: '\\d{2}',
+  zz: '[+-]\\d{4}',
+  z: '[+-]\\d{2}:\\d{2}',
+  yy: '\\d{2}',
+  MM: '\\d{2}',
+  dd: '\\d{2}',
+  A: '(?:AM|PM)',
+  a: '(?:am|pm)',
+  h: '\\d{2}',
+  S: '\\d',
+};
+
 const REGEX_MATCHER = /^\/(.+)\/([dgimsuvy]*)$/;
 
+// Stack frame formats: V8 ('    at fn (file:1:2)' / '    at file:1:2') and
+// SpiderMonkey/JavaScriptCore ('fn@file:1:2')
+const V8_STACK_FRAME_REGEX = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/;
+const GECKO_STACK_FRAME_REGEX = /^(?:(.*?)@)?(.+?):(\d+):(\d+)$/;
+
+// Placeholders for message interpolation: printf-style (%s, %d, ...) and named ({user.id})
+const PRINTF_PLACEHOLDER_REGEX = /%([sdifjoO%])/g;
+const NAMED_PLACEHOLDER_REGEX = /\{([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\}/g;
+
 // Constants for error serialization
 const EXCLUDED_ERROR_KEYS = new Set(['name', 'message', 'stack', 'cause']);
 const COMMON_NON_ENUMERABLE_PROPS = ['code', 'errno', 'syscall', 'path'] as const;
@@ -22,6 +52,16 @@ export interface StringifyLogOptions {
   maxArrayLength?: number;
 }
 
+/**
+ * Result of interpolating a message template with LogM8Utils.interpolateMessage.
+ */
+export interface InterpolatedMessage {
+  /** The rendered message. */
+  message: string;
+  /** Arguments not consumed by printf-style placeholders. */
+  data: unknown[];
+}
+
 export interface SerializedError {
   name: string;
   message: string;
@@ -209,6 +249,25 @@ class LogM8Utils {
     });
   }
 
+  /**
+   * Builds a regular expression source matching timestamps produced by formatTimestamp
+   * with a custom token pattern. Literal characters in the pattern are escaped.
+   *
+   * @param fmt - Custom token pattern (presets are not supported)
+   * @returns Regular expression source, without anchors
+   *
+   * @example
+   * ```typescript
+   * new RegExp(`^${LogM8Utils.timestampPattern('yyyy-MM-dd')}$`).test('2025-08-04'); // true
+   * ```
+   */
+  public static timestampPattern(fmt: string): string {
+    return fmt
+      .split(TIMESTAMP_TOKEN_REGEX)
+      .map((part) => TIMESTAMP_TOKEN_PATTERNS[part] ?? part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('');
+  }
+
   /**
    * Converts arbitrary values into JSON strings optimized for logging systems.
    *
@@ -493,6 +552,143 @@ class LogM8Utils {
     return serializeErrorInternal(error, new WeakSet());
   }
 
+  /**
+   * Renders printf-style and named placeholders in a message template.
+   *
+   * Printf-style placeholders consume arguments in order:
+   * - `%s` string, `%d` / `%i` integer, `%f` float
+   * - `%j`, `%o`, `%O` JSON (via stringifyLog)
+   * - `%%` a literal percent sign
+   *
+   * Named placeholders such as `{userId}` or `{user.id}` are resolved by dot-path
+   * against the first remaining object argument, which is not consumed so it stays
+   * available as structured data. Placeholders without a matching argument or
+   * property are left untouched.
+   *
+   * @param template - Message template
+   * @param args - Arguments passed alongside the template
+   * @returns The rendered message and unconsumed arguments, or undefined when the
+   *          template contains no placeholders that could be resolved
+   *
+   * @example
+   * ```typescript
+   * LogM8Utils.interpolateMessage('user %s from %s', ['42', '10.0.0.1']);
+   * // => { message: 'user 42 from 10.0.0.1', data: [] }
+   *
+   * LogM8Utils.interpolateMessage('user {userId} logged in', [{ userId: 42 }]);
+   * // => { message: 'user 42 logged in', data: [{ userId: 42 }] }
+   * ```
+   */
+  public static interpolateMessage(
+    template: string,
+    args: unknown[],
+  ): InterpolatedMessage | undefined {
+    let replaced = false;
+    let argIndex = 0;
+
+    let message = template.replace(PRINTF_PLACEHOLDER_REGEX, (match, spec: string) => {
+      if (spec === '%') {
+        replaced = true;
+        return '%';
+      }
+      if (argIndex >= args.length) return match;
+      replaced = true;
+      const arg = args[argIndex++];
+      switch (spec) {
+        case 'd':
+        case 'i':
+          return String(typeof arg === 'bigint' ? arg : Math.trunc(Number(arg)));
+        case 'f':
+          return String(Number(arg));
+        case 's':
+          if (typeof arg !== 'object' || arg === null) return String(arg);
+          return arg instanceof Error ? arg.message : LogM8Utils.stringifyLog(arg);
+        default:
+          return LogM8Utils.stringifyLog(arg);
+      }
+    });
+    const data = args.slice(argIndex);
+
+    const source = data.find((arg) => typeof arg === 'object' && arg !== null);
+    if (source !== undefined) {
+      message = message.replace(NAMED_PLACEHOLDER_REGEX, (match, path: string) => {
+        const value = LogM8Utils.getPropertyByPath(source, path);
+        if (value === undefined) return match;
+        replaced = true;
+        return typeof value === 'object' && value !== null
+          ? LogM8Utils.stringifyLog(value)
+          : String(value);
+      });
+    }
+
+    return replaced ? { message, data } : undefined;
+  }
+
+  /**
+   * Compiles logger name patterns into a single matcher function.
+   *
+   * Patterns are dot-separated logger names where `*` matches any run of characters.
+   * A trailing `.*` also matches the parent itself, so 'app.db.*' matches 'app.db' and
+   * every logger below it. Patterns prefixed with `!` exclude matching loggers. A name
+   * matches when it matches any include pattern (or there are none) and no exclude.
+   *
+   * @param patterns - Logger name patterns, e.g. ['app.db.*', '!app.db.noisy']
+   * @returns Function testing whether a logger name matches the patterns
+   *
+   * @example
+   * ```typescript
+   * const matches = LogM8Utils.compileLoggerPatterns(['app.db.*', '!app.db.noisy']);
+   * matches('app.db.queries'); // true
+   * matches('app.db.noisy');   // false
+   * matches('app.web');        // false
+   * ```
+   */
+  public static compileLoggerPatterns(patterns: string[]): (name: string) => boolean {
+    const toSource = (pattern: string) => {
+      const wildcardChildren = pattern.endsWith('.*');
+      const base = wildcardChildren ? pattern.slice(0, -2) : pattern;
+      const source = base
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+      return wildcardChildren ? `${source}(?:\\..*)?` : source;
+    };
+    const compile = (list: string[]) =>
+      list.length > 0 ? new RegExp(`^(?:${list.map(toSource).join('|')})$`) : undefined;
+
+    const trimmed = patterns.map((p) => p.trim()).filter((p) => p && p !== '!');
+    const include = compile(trimmed.filter((p) => !p.startsWith('!')));
+    const exclude = compile(trimmed.filter((p) => p.startsWith('!')).map((p) => p.slice(1)));
+
+    return (name) => (!include || include.test(name)) && !exclude?.test(name);
+  }
+
+  /**
+   * Parses a single line of an Error stack into a source location.
+   *
+   * Understands the V8 (Node.js, Chromium) format `at fn (file:line:column)` and the
+   * Firefox/Safari format `fn@file:line:column`. Anonymous frames have no function.
+   *
+   * @param frame - One line of `Error().stack`
+   * @returns The parsed location, or undefined for lines that are not stack frames
+   *
+   * @example
+   * ```typescript
+   * LogM8Utils.parseStackFrame('    at handle (/app/src/server.ts:42:7)');
+   * // => { file: '/app/src/server.ts', line: 42, column: 7, function: 'handle' }
+   * ```
+   */
+  public static parseStackFrame(frame: string): LogLocation | undefined {
+    const match = V8_STACK_FRAME_REGEX.exec(frame) ?? GECKO_STACK_FRAME_REGEX.exec(frame.trim());
+    if (!match) return undefined;
+
+    const [, fn, file, line, column] = match;
+    const location: LogLocation = { file, line: Number(line), column: Number(column) };
+    const name = fn?.replace(/^async /, '');
+    if (name) location.function = name;
+    return location;
+  }
+
   /**
    * Take a regex in the format /regex/flags and parse it into a RegExp object
    *
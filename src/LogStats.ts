@@ -0,0 +1,89 @@
+import type { LogLevelType } from './LogLevel.ts';
+
+/**
+ * Snapshot of the event pipeline counters, returned by LogM8.getStats().
+ *
+ * Counters accumulate from the creation of the LogM8 instance (or the last
+ * resetStats()) and survive init() and reconfigure(). Events skipped before they are
+ * created (logger level checks) or before they reach an appender's filters (disabled
+ * appenders, appender levels and logger routing) are not counted.
+ *
+ * @example
+ * ```typescript
+ * const stats = Logging.getStats();
+ * if (stats.dropped > 0 || stats.total.failed > 0) alert('log events were lost');
+ * stats.appenders['file'].levels.error?.written;
+ * ```
+ */
+export interface LogStats {
+  /**
+   * Counters over all levels and appenders.
+   */
+  total: EventCounts;
+
+  /**
+   * Counters per level, including custom levels; levels without events are omitted.
+   */
+  levels: Partial<Record<LogLevelType | (string & {}), EventCounts>>;
+
+  /**
+   * Counters per appender name. Appenders sharing a name share their counters.
+   */
+  appenders: Record<string, AppenderStats>;
+
+  /**
+   * Events dropped from the buffer of events logged before init() because it was full.
+   */
+  dropped: number;
+}
+
+/**
+ * Counters of a single appender.
+ */
+export interface AppenderStats {
+  /**
+   * Counters over all levels.
+   */
+  total: AppenderCounts;
+
+  /**
+   * Counters per level, including custom levels; levels without events are omitted.
+   */
+  levels: Partial<Record<LogLevelType | (string & {}), AppenderCounts>>;
+}
+
+/**
+ * Outcome of events handed to appenders. An event delivered to several appenders is
+ * counted once per appender.
+ */
+export interface AppenderCounts {
+  /**
+   * Events denied by the appender's own filters.
+   */
+  denied: number;
+
+  /**
+   * Events written by the appender.
+   */
+  written: number;
+
+  /**
+   * Events for which the appender's write() threw.
+   */
+  failed: number;
+}
+
+/**
+ * Counters of the whole pipeline, summed over appenders where they apply.
+ */
+export interface EventCounts extends AppenderCounts {
+  /**
+   * Log events created, i.e. that passed the logger level checks.
+   */
+  created: number;
+
+  /**
+   * Events denied by global filters.
+   */
+  filtered: number;
+}
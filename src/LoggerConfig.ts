@@ -0,0 +1,42 @@
+import type { LogLevelType } from './LogLevel.ts';
+
+/**
+ * Object form of a LoggingConfig.loggers entry.
+ *
+ * Besides the level, a logger can attach appenders to its subtree and stop its
+ * events from propagating to the root appenders. Appenders attached to any logger
+ * are no longer root appenders, so they only receive events from the subtrees they
+ * are attached to. The resolved appenders are cached per logger name.
+ *
+ * @example
+ * ```typescript
+ * Logging.init({
+ *   appenders: ['console', { name: 'audit-file' }],
+ *   loggers: {
+ *     // 'audit' and its descendants only write to the audit-file appender
+ *     audit: { level: 'info', appenders: ['audit-file'], additive: false },
+ *   },
+ * });
+ * ```
+ */
+export interface LoggerConfig {
+  /**
+   * Level for the logger; descendants without their own level inherit it.
+   * When omitted, the logger inherits its level as usual.
+   */
+  level?: string | LogLevelType;
+
+  /**
+   * Names of the appenders (as in LogM8.enableAppender()) attached to this logger.
+   * They receive events from this logger and its descendants.
+   */
+  appenders?: string[];
+
+  /**
+   * Whether events also propagate to the root appenders. Defaults to true.
+   *
+   * When false, events from this logger and its descendants are delivered only
+   * to the appenders attached here and to descendant loggers in between.
+   */
+  additive?: boolean;
+}
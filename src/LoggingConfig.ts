@@ -1,6 +1,14 @@
 import type { AppenderConfig } from './AppenderConfig.ts';
+import type { CaptureErrorsConfig } from './CaptureErrorsConfig.ts';
+import type { CaptureLocationConfig } from './CaptureLocationConfig.ts';
+import type { ConsoleCaptureConfig } from './ConsoleCaptureConfig.ts';
+import type { CustomLevelConfig } from './CustomLevelConfig.ts';
+import type { DiagnosticsConfig } from './DiagnosticsConfig.ts';
+import type { EnvConfig } from './EnvConfig.ts';
 import type { FilterConfig } from './FilterConfig.ts';
+import type { LoggerConfig } from './LoggerConfig.ts';
 import type { LogLevelType } from './LogLevel.ts';
+import type { ShutdownConfig } from './ShutdownConfig.ts';
 
 /**
  * Primary configuration object for initializing the LogM8 logging system.
@@ -47,24 +55,38 @@ export interface LoggingConfig {
    */
   level?: string | LogLevelType;
 
+  /**
+   * Additional log levels, each placed directly above or below an existing level.
+   *
+   * Declared levels can be used as levels anywhere in this configuration, and loggers
+   * get a logging method and an `is<Name>` flag for each. Levels are declared in
+   * order, so a level may be placed relative to one declared before it.
+   * See CustomLevelConfig.
+   */
+  customLevels?: CustomLevelConfig[];
+
   /**
    * Per-logger level overrides by hierarchical name.
    *
    * Allows fine-grained control over logging verbosity for different
    * parts of the application. Logger names use dot-separated hierarchical
    * notation where child loggers inherit from parent configurations.
+   * A logger configured more verbose than `level` emits its events at its own level.
    *
    * @example
    * ```typescript
    * loggers: {
    *   'app': 'info',              // Base level for 'app' namespace
    *   'app.database': 'debug',    // More verbose for database operations
-   *   'app.database.queries': 'trace' // Maximum detail for query logging
+   *   'app.database.queries': 'trace', // Maximum detail for query logging
+   *   'audit': { level: 'info', appenders: ['audit-file'], additive: false }
    * }
    * ```
+   *
+   * The object form (LoggerConfig) can also restrict a subtree to its own appenders.
    */
   loggers?: {
-    [key: string]: LogLevelType | undefined;
+    [key: string]: string | LogLevelType | LoggerConfig | undefined;
   };
 
   /**
@@ -88,4 +110,85 @@ export interface LoggingConfig {
    * AppenderConfig.filters.
    */
   filters?: (string | FilterConfig)[];
+
+  /**
+   * Opt-in interpolation of message placeholders.
+   *
+   * When true, string messages are rendered with their arguments using printf-style
+   * (`'user %s from %s', id, ip`) and named (`'user {userId}', { userId }`)
+   * placeholders. The raw template and arguments are kept on LogEvent.template and
+   * LogEvent.args. Disabled by default.
+   */
+  interpolate?: boolean;
+
+  /**
+   * Opt-in capture of the caller location (file, line, column, function) as
+   * LogEvent.location.
+   *
+   * When true, locations are captured for every event; a CaptureLocationConfig
+   * restricts capture to specific loggers and levels. Capturing parses a stack
+   * trace per event, so it is disabled by default and costs nothing when off.
+   */
+  captureLocation?: boolean | CaptureLocationConfig;
+
+  /**
+   * Opt-in graceful shutdown hooks (Node.js only).
+   *
+   * When true or a ShutdownConfig object, LogM8 handles 'beforeExit', 'SIGINT',
+   * 'SIGTERM' and 'uncaughtException' by logging a final event, flushing every
+   * appender, and then letting the process exit with the appropriate code.
+   * Disabled by default.
+   */
+  shutdown?: boolean | ShutdownConfig;
+
+  /**
+   * Opt-in capture of uncaught exceptions and unhandled promise rejections.
+   *
+   * When true or a CaptureErrorsConfig object, failures that would otherwise
+   * bypass logging are routed through a logger ('uncaught' by default) at
+   * 'fatal' (exceptions) or 'error' (rejections) level, with the Error in the
+   * event data. Disabled by default.
+   */
+  captureErrors?: boolean | CaptureErrorsConfig;
+
+  /**
+   * Opt-in routing of global console calls into LogM8.
+   *
+   * When true or a ConsoleCaptureConfig object, console.error/warn/info/log/debug/trace
+   * are patched so each call becomes a LogEvent on a logger ('console' by default).
+   * The original console is restored on dispose() or re-initialization. Disabled by default.
+   */
+  captureConsole?: boolean | ConsoleCaptureConfig;
+
+  /**
+   * Opt-in overrides from environment variables.
+   *
+   * When true or an EnvConfig object, LOGM8_LEVEL, LOGM8_LOGGERS and a DEBUG-style
+   * namespace list are merged on top of this configuration (see EnvConfig for the
+   * precedence rules). Disabled by default.
+   */
+  env?: boolean | EnvConfig;
+
+  /**
+   * How configuration problems are handled by init() and reconfigure().
+   *
+   * 'strict' throws an Error listing every problem with its JSON path, 'lenient'
+   * reports them with console.warn and applies the configuration anyway, and 'off'
+   * skips validation. Defaults to 'lenient'. See LogM8.validateConfig().
+   */
+  validation?: ConfigValidationMode;
+
+  /**
+   * How internal failures (appender write/flush errors, file stream errors, failed
+   * config reloads, ...) are surfaced besides LogM8.onInternalError() handlers.
+   *
+   * By default they are printed on the console. See DiagnosticsConfig for quiet and
+   * verbose modes and for logging them on the 'logm8.internal' logger.
+   */
+  diagnostics?: DiagnosticsConfig;
 }
+
+/**
+ * Validation modes of LoggingConfig.validation.
+ */
+export type ConfigValidationMode = 'strict' | 'lenient' | 'off';
@@ -56,6 +56,10 @@ class NullLogger implements Log {
   getLogger(_name: string): Log {
     return this as unknown as Log; // Return self for any sub-logger
   }
+
+  child(_context: LogContext): Log {
+    return this as unknown as Log; // Return self for any scoped logger
+  }
 }
 
 export { NullLogger };
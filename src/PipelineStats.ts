@@ -0,0 +1,102 @@
+import { LogLevel } from './LogLevel.ts';
+import type { AppenderCounts, AppenderStats, EventCounts, LogStats } from './LogStats.ts';
+
+type EventCounter = keyof EventCounts;
+type AppenderCounter = keyof AppenderCounts;
+
+const EVENT_COUNTERS: EventCounter[] = ['created', 'filtered', 'denied', 'written', 'failed'];
+const APPENDER_COUNTERS: AppenderCounter[] = ['denied', 'written', 'failed'];
+
+/**
+ * Counters behind LogM8.getStats().
+ *
+ * Counts are kept in arrays indexed by level number so counting on the logging hot
+ * path stays a single increment; snapshots map them to level names.
+ */
+class PipelineStats {
+  private _levels: string[] = Object.values(LogLevel);
+  private _events = emptyCounters(EVENT_COUNTERS);
+  private _appenders = new Map<string, Record<AppenderCounter, number[]>>();
+  private _dropped = 0;
+
+  public count(counter: EventCounter, levelNumber: number): void {
+    this._events[counter][levelNumber] = (this._events[counter][levelNumber] ?? 0) + 1;
+  }
+
+  public countAppender(name: string, counter: AppenderCounter, levelNumber: number): void {
+    let counters = this._appenders.get(name);
+    if (!counters) {
+      counters = emptyCounters(APPENDER_COUNTERS);
+      this._appenders.set(name, counters);
+    }
+    counters[counter][levelNumber] = (counters[counter][levelNumber] ?? 0) + 1;
+    this.count(counter, levelNumber);
+  }
+
+  public countDropped(): void {
+    this._dropped++;
+  }
+
+  public reset(): void {
+    this._events = emptyCounters(EVENT_COUNTERS);
+    this._appenders = new Map();
+    this._dropped = 0;
+  }
+
+  /**
+   * Re-indexes the counters when custom levels change the level numbers. Counts of
+   * levels that are no longer configured are kept after the given levels.
+   *
+   * @param levels - Level names, indexed by level number
+   */
+  public setLevels(levels: string[]): void {
+    const order = [...levels, ...this._levels.filter((l) => !levels.includes(l))];
+    const moved = (counts: number[]) => {
+      const result: number[] = [];
+      counts.forEach((n, levelNumber) => (result[order.indexOf(this._levels[levelNumber])] = n));
+      return result;
+    };
+    for (const key of EVENT_COUNTERS) this._events[key] = moved(this._events[key]);
+    for (const counters of this._appenders.values()) {
+      for (const key of APPENDER_COUNTERS) counters[key] = moved(counters[key]);
+    }
+    this._levels = order;
+  }
+
+  public snapshot(): LogStats {
+    const appenders: Record<string, AppenderStats> = {};
+    for (const [name, counters] of this._appenders) {
+      appenders[name] = tally(counters, APPENDER_COUNTERS, this._levels);
+    }
+    return {
+      ...tally(this._events, EVENT_COUNTERS, this._levels),
+      appenders,
+      dropped: this._dropped,
+    };
+  }
+}
+
+function emptyCounters<K extends string>(keys: K[]): Record<K, number[]> {
+  return Object.fromEntries(keys.map((k) => [k, []])) as unknown as Record<K, number[]>;
+}
+
+function tally<K extends string>(
+  counters: Record<K, number[]>,
+  keys: K[],
+  levels: string[],
+): { total: Record<K, number>; levels: Record<string, Record<K, number>> } {
+  const zero = () => Object.fromEntries(keys.map((k) => [k, 0])) as Record<K, number>;
+  const total = zero();
+  const byLevel: Record<string, Record<K, number>> = {};
+  for (const key of keys) {
+    counters[key].forEach((n, levelNumber) => {
+      if (!n) return;
+      const level = levels[levelNumber];
+      (byLevel[level] ??= zero())[key] += n;
+      total[key] += n;
+    });
+  }
+  return { total, levels: byLevel };
+}
+
+export { PipelineStats };
@@ -1,3 +1,5 @@
+import type { CustomLevelConfig } from './CustomLevelConfig.ts';
+import type { InternalErrorPhase } from './InternalError.ts';
 import type { PluginConfig } from './PluginConfig.ts';
 import type { PluginKindType } from './PluginKind.ts';
 
@@ -22,6 +24,39 @@ export interface Plugin {
 
   /**
    * Disposes the plugin, releasing any used resources.
+   *
+   * May return a Promise that resolves once asynchronous resources are released.
    */
-  dispose(): void;
+  dispose(): void | Promise<void>;
+
+  /**
+   * Reports failures that LogM8 cannot catch itself, such as background stream or
+   * file system errors, to LogM8.onInternalError() handlers.
+   *
+   * Assigned by LogM8 when it creates the plugin; plugins created elsewhere may
+   * leave it unset and fall back to the console.
+   */
+  onError?: PluginErrorReporter;
+
+  /**
+   * Receives the levels declared in LoggingConfig.customLevels, most severe first.
+   *
+   * Called by LogM8 after it creates an appender or formatter, before the appender is
+   * initialized. Appenders that handle custom levels add them to their supportedLevels.
+   *
+   * @param levels - Custom level declarations; empty when none are configured
+   */
+  setCustomLevels?(levels: CustomLevelConfig[]): void;
 }
+
+/**
+ * Callback assigned to Plugin.onError.
+ * @param phase - Operation that failed.
+ * @param message - Description of the failure.
+ * @param error - The underlying error, if any.
+ */
+export type PluginErrorReporter = (
+  phase: InternalErrorPhase,
+  message: string,
+  error?: unknown,
+) => void;
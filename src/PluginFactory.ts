@@ -1,3 +1,4 @@
+import type { ConfigSchema } from './ConfigSchema.ts';
 import type { Plugin } from './Plugin.ts';
 import type { PluginConfig } from './PluginConfig.ts';
 import type { PluginKindType } from './PluginKind.ts';
@@ -17,6 +18,14 @@ export interface PluginFactory<C extends PluginConfig = PluginConfig, P extends
   /** The kind of plugin this factory creates. */
   readonly kind: PluginKindType;
 
+  /**
+   * Optional schema of the plugin-specific config options.
+   *
+   * Merged with the common options of the plugin kind when configs are validated.
+   * When present, options not listed in the schema are reported as unknown.
+   */
+  readonly schema?: ConfigSchema;
+
   /**
    * Creates a plugin instance using the provided configuration.
    * @param config - Configuration for the plugin.
@@ -1,3 +1,4 @@
+import type { InternalErrorPhase } from './InternalError.ts';
 import type { Plugin } from './Plugin.ts';
 import type { PluginConfig } from './PluginConfig.ts';
 import type { PluginFactory } from './PluginFactory.ts';
@@ -10,6 +11,16 @@ import type { PluginKindType } from './PluginKind.ts';
 class PluginManager {
   private _pluginFactories: Map<string, PluginFactory> = new Map();
   private _plugins: Plugin[] = [];
+  private _onError?: PluginManagerErrorHandler;
+
+  /**
+   * @param onError - Optional handler for plugin failures. When set, it is assigned to
+   *   Plugin.onError of every created plugin and receives dispose failures, which are
+   *   otherwise printed on the console.
+   */
+  constructor(onError?: PluginManagerErrorHandler) {
+    this._onError = onError;
+  }
 
   /**
    * Registers a plugin factory.
@@ -38,6 +49,10 @@ class PluginManager {
       throw new Error(`LogM8: Plugin factory kind '${kind}' with name '${name}' not found.`);
     }
     const plugin = pluginFactory.create(config);
+    const onError = this._onError;
+    if (onError) {
+      plugin.onError = (phase, message, error) => onError(plugin, phase, message, error);
+    }
     this._plugins.push(plugin);
     return plugin;
   }
@@ -54,15 +69,35 @@ class PluginManager {
     return pluginFactory;
   }
 
+  /**
+   * Lists the registered plugin factories, in registration order.
+   * @param kind - Optional plugin kind to list factories of.
+   * @returns The registered factories, of the given kind if specified.
+   */
+  getPluginFactories(kind?: PluginKindType): PluginFactory[] {
+    const factories = [...this._pluginFactories.values()];
+    return kind ? factories.filter((f) => f.kind === kind) : factories;
+  }
+
   /**
    * Disposes all created plugin instances by invoking their dispose methods.
    * Clears the internal plugin list.
+   * @returns Promise resolving once every plugin, including asynchronous ones, is disposed.
    */
-  disposePlugins(): void {
-    this._plugins.forEach((plugin) => {
-      plugin.dispose();
-    });
+  disposePlugins(): Promise<void> {
+    const disposals = this._plugins.map((plugin) => this._disposePlugin(plugin));
     this._plugins = [];
+    return Promise.all(disposals).then(() => undefined);
+  }
+
+  /**
+   * Disposes a single plugin instance created by this manager and stops tracking it.
+   * @param plugin - The plugin instance to dispose.
+   * @returns Promise resolving once the plugin is disposed.
+   */
+  disposePlugin(plugin: Plugin): Promise<void> {
+    this._plugins = this._plugins.filter((p) => p !== plugin);
+    return this._disposePlugin(plugin);
   }
 
   /**
@@ -71,6 +106,34 @@ class PluginManager {
   clearFactories(): void {
     this._pluginFactories.clear();
   }
+
+  private _disposePlugin(plugin: Plugin): Promise<void> {
+    try {
+      return Promise.resolve(plugin.dispose()).catch((err) => this._logDisposeError(plugin, err));
+    } catch (err) {
+      this._logDisposeError(plugin, err);
+      return Promise.resolve();
+    }
+  }
+
+  private _logDisposeError(plugin: Plugin, err: unknown): void {
+    const message = `Failed to dispose plugin: ${plugin.name}`;
+    if (this._onError) {
+      this._onError(plugin, 'dispose', message, err);
+    } else if (console && console.error) {
+      console.error(`LogM8: ${message}:`, err);
+    }
+  }
 }
 
+/**
+ * Receives failures of plugins created by a PluginManager.
+ */
+type PluginManagerErrorHandler = (
+  plugin: Plugin,
+  phase: InternalErrorPhase,
+  message: string,
+  error?: unknown,
+) => void;
+
 export { PluginManager };
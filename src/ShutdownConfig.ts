@@ -0,0 +1,42 @@
+/**
+ * Configuration for the graceful shutdown hooks installed by LoggingConfig.shutdown (Node.js only).
+ *
+ * When enabled, LogM8 registers process handlers that log a final event, flush
+ * every appender, and then let the process exit:
+ * - 'beforeExit': logs at info level and flushes; the process exits with its current exit code.
+ * - 'SIGINT' / 'SIGTERM': logs at warn level, flushes, then exits with 128 + signal number.
+ *   A second signal while flushing exits immediately.
+ * - 'uncaughtException': logs the error at fatal level, flushes, then exits with code 1.
+ *
+ * Handlers are removed again by LogM8.dispose() or a subsequent LogM8.init().
+ *
+ * @example
+ * ```typescript
+ * Logging.init({
+ *   shutdown: { logger: 'app.lifecycle', timeout: 2000 },
+ * });
+ * ```
+ */
+export interface ShutdownConfig {
+  /**
+   * Name of the logger used for the final shutdown event. Defaults to 'logm8'.
+   */
+  logger?: string;
+
+  /**
+   * Process events to handle. Defaults to all of
+   * ['beforeExit', 'SIGINT', 'SIGTERM', 'uncaughtException'].
+   */
+  events?: ShutdownEvent[];
+
+  /**
+   * Maximum time in milliseconds to wait for appenders to flush before exiting.
+   * Defaults to 5000.
+   */
+  timeout?: number;
+}
+
+/**
+ * Process events that can trigger a graceful shutdown.
+ */
+export type ShutdownEvent = 'beforeExit' | 'SIGINT' | 'SIGTERM' | 'uncaughtException';
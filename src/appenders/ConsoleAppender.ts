@@ -1,5 +1,7 @@
 import type { Appender } from '../Appender.ts';
 import type { AppenderConfig } from '../AppenderConfig.ts';
+import type { ConfigSchema } from '../ConfigSchema.ts';
+import type { CustomLevelConfig } from '../CustomLevelConfig.ts';
 import type { Filter } from '../Filter.ts';
 import type { Formatter } from '../Formatter.ts';
 import type { LogEvent } from '../LogEvent.ts';
@@ -21,6 +23,23 @@ const SUPPORTED_LEVELS = new Set<LogLevelType>([
   LogLevel.trace,
 ]);
 
+/**
+ * Property under which a patched console method (see LoggingConfig.captureConsole)
+ * keeps a reference to the original method it replaced.
+ */
+const ORIGINAL_CONSOLE_METHOD = Symbol.for('log-m8.console.original');
+
+type ConsoleFn = (...args: unknown[]) => void;
+
+// Resolve a console method to its unpatched original so captured consoles never recurse
+function consoleMethod(method: ConsoleFn | undefined): ConsoleFn | undefined {
+  if (!method) return undefined;
+  const original = (method as ConsoleFn & { [ORIGINAL_CONSOLE_METHOD]?: ConsoleFn })[
+    ORIGINAL_CONSOLE_METHOD
+  ];
+  return (original ?? method).bind(console);
+}
+
 /**
  * Configuration interface for console appender.
  * Currently extends base AppenderConfig without additional options.
@@ -33,7 +52,8 @@ export interface ConsoleAppenderConfig extends AppenderConfig {
  * Built-in appender that outputs log events to the global console object.
  *
  * Maps log levels to appropriate console methods (error, warn, info, debug, etc.)
- * with fallback to console.log when specific methods are unavailable.
+ * with fallback to console.log when specific methods are unavailable. Custom levels
+ * use the method given by CustomLevelConfig.console, console.log by default.
  * Automatically detects console availability and gracefully handles environments
  * where console is not available.
  *
@@ -57,7 +77,7 @@ class ConsoleAppender implements Appender {
   public version = VERSION;
   public kind = KIND;
 
-  public readonly supportedLevels = SUPPORTED_LEVELS;
+  public supportedLevels = SUPPORTED_LEVELS;
   public enabled = true;
   public priority?: number;
 
@@ -66,16 +86,19 @@ class ConsoleAppender implements Appender {
   private _filters: Filter[] = [];
   private _available = true;
 
-  // Console method mapping with fallbacks for missing methods
+  // Console method mapping with fallbacks for missing methods (always the unpatched originals)
   private off = () => {};
-  private fatal = console.error ? console.error.bind(console) : console.log.bind(console);
-  private error = console.error ? console.error.bind(console) : console.log.bind(console);
-  private warn = console.warn ? console.warn.bind(console) : console.log.bind(console);
-  private info = console.info ? console.info.bind(console) : console.log.bind(console);
-  private debug = console.debug ? console.debug.bind(console) : console.log.bind(console);
+  private log = consoleMethod(console.log)!;
+  private fatal = consoleMethod(console.error) ?? this.log;
+  private error = consoleMethod(console.error) ?? this.log;
+  private warn = consoleMethod(console.warn) ?? this.log;
+  private info = consoleMethod(console.info) ?? this.log;
+  private debug = consoleMethod(console.debug) ?? this.log;
   // Avoid console.trace as it captures stack traces and is significantly slower; prefer debug/log
-  private trace = console.debug ? console.debug.bind(console) : console.log.bind(console);
-  private track = console.log.bind(console);
+  private trace = consoleMethod(console.debug) ?? this.log;
+  private track = this.log;
+  // Console methods of custom levels, from CustomLevelConfig.console
+  private _customMethods = new Map<string, ConsoleFn>();
 
   public init(config: AppenderConfig, formatter?: Formatter, filters?: Filter[]): void {
     this._config = config;
@@ -87,6 +110,16 @@ class ConsoleAppender implements Appender {
     this.priority = this._config?.priority;
   }
 
+  public setCustomLevels(levels: CustomLevelConfig[]): void {
+    this.supportedLevels = new Set([
+      ...SUPPORTED_LEVELS,
+      ...levels.map((l) => l.name as LogLevelType),
+    ]);
+    this._customMethods = new Map(
+      levels.map((l) => [l.name, consoleMethod(console[l.console ?? 'log']) ?? this.log]),
+    );
+  }
+
   public dispose(): void {
     // No resources to dispose for console appender
   }
@@ -107,7 +140,7 @@ class ConsoleAppender implements Appender {
     const data = this._formatter ? this._formatter.format(event) : [event];
 
     // Output using level-appropriate console method
-    this[event.level](...data);
+    (this._customMethods.get(event.level) ?? this[event.level])(...data);
   }
 
   public flush(): void {
@@ -141,6 +174,7 @@ class ConsoleAppenderFactory implements PluginFactory<ConsoleAppenderConfig, Con
   public name = NAME;
   public version = VERSION;
   public kind = KIND;
+  public schema: ConfigSchema = { type: 'object', properties: {} };
 
   public create(config: AppenderConfig): ConsoleAppender {
     const appender = new ConsoleAppender();
@@ -149,4 +183,4 @@ class ConsoleAppenderFactory implements PluginFactory<ConsoleAppenderConfig, Con
   }
 }
 
-export { ConsoleAppender, ConsoleAppenderFactory };
+export { ConsoleAppender, ConsoleAppenderFactory, consoleMethod, ORIGINAL_CONSOLE_METHOD };
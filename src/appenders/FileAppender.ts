@@ -3,11 +3,15 @@ import { createWriteStream } from 'fs';
 
 import type { Appender } from '../Appender.ts';
 import type { AppenderConfig } from '../AppenderConfig.ts';
+import type { ConfigSchema } from '../ConfigSchema.ts';
+import type { CustomLevelConfig } from '../CustomLevelConfig.ts';
 import type { Filter } from '../Filter.ts';
 import type { Formatter } from '../Formatter.ts';
+import type { InternalErrorPhase } from '../InternalError.ts';
 import type { LogEvent } from '../LogEvent.ts';
 import { LogLevel, type LogLevelType } from '../LogLevel.ts';
 import { LogM8Utils } from '../LogM8Utils.ts';
+import type { PluginErrorReporter } from '../Plugin.ts';
 import type { PluginFactory } from '../PluginFactory.ts';
 import { PluginKind } from '../PluginKind.ts';
 
@@ -48,21 +52,23 @@ export interface FileAppenderConfig extends AppenderConfig {
  * - Joins formatted tokens with a single space and appends a trailing newline.
  * - If no formatter is configured, writes the raw LogEvent via String() coercion of tokens.
  * - Respects per-appender filters before writing.
- * - flush() is a no-op; data is flushed by the stream implementation. dispose() ends the stream.
+ * - flush() resolves once all previously written lines have been written to the file.
+ * - dispose() ends the stream and resolves once the file has been closed.
  */
 class FileAppender implements Appender {
   public name = NAME;
   public version = VERSION;
   public kind = KIND;
 
-  public readonly supportedLevels = SUPPORTED_LEVELS;
+  public supportedLevels = SUPPORTED_LEVELS;
   public enabled = true;
   public priority?: number;
+  public onError?: PluginErrorReporter;
 
-  private _config?: FileAppenderConfig;
+  protected _config?: FileAppenderConfig;
   private _formatter?: Formatter;
   private _filters: Filter[] = [];
-  private _stream?: WriteStream;
+  protected _stream?: WriteStream;
   private _streamCreationFailed = false;
 
   public init(config: AppenderConfig, formatter?: Formatter, filters?: Filter[]): void {
@@ -73,15 +79,28 @@ class FileAppender implements Appender {
     this.enabled = this._config?.enabled !== false; // Default to true if not specified
     this.priority = this._config?.priority;
 
-    if (this.enabled) {
+    // LogM8 initializes appenders again after the factory created them; keep the open stream
+    if (this.enabled && !this._stream) {
       // Create the write stream
       this._createStream();
     }
   }
 
-  public dispose(): void {
-    this._stream?.end();
+  public setCustomLevels(levels: CustomLevelConfig[]): void {
+    this.supportedLevels = new Set([
+      ...SUPPORTED_LEVELS,
+      ...levels.map((l) => l.name as LogLevelType),
+    ]);
+  }
+
+  public dispose(): Promise<void> {
+    const stream = this._stream;
     this._stream = undefined;
+    if (!stream || stream.closed) return Promise.resolve();
+    return new Promise((resolve) => {
+      stream.once('close', () => resolve());
+      stream.end();
+    });
   }
 
   public write(event: LogEvent): void {
@@ -91,9 +110,7 @@ class FileAppender implements Appender {
       try {
         this._createStream();
       } catch (err) {
-        if (console && console.error) {
-          console.error(`LogM8 [FileAppender]: Failed to create file stream: ${err}`);
-        }
+        this._reportError('write', 'Failed to create file stream', err);
         this._streamCreationFailed = true;
       }
     }
@@ -116,11 +133,16 @@ class FileAppender implements Appender {
         return String(d);
       })
       .join(' ');
-    this._stream.write(message + '\n');
+    this._writeLine(message + '\n', event);
   }
 
-  public flush(): void {
-    // No-op for file appender; data is flushed on stream end.
+  public flush(): Promise<void> {
+    const stream = this._stream;
+    if (!stream || stream.writableEnded || stream.writableLength === 0) return Promise.resolve();
+    // Writes complete in order, so an empty write completes after all pending writes
+    return new Promise((resolve) => {
+      stream.write('', () => resolve());
+    });
   }
 
   public enableFilter(name: string): void {
@@ -139,9 +161,28 @@ class FileAppender implements Appender {
     return this._filters.find((f) => f.name === name);
   }
 
-  private _createStream(): void {
+  protected _createStream(): void {
     const flags = this._config?.append ? 'a' : 'w';
-    this._stream = createWriteStream(this._config?.filename ?? DEFAULT_FILENAME, { flags });
+    this._stream = this._openStream(this._config?.filename ?? DEFAULT_FILENAME, flags);
+  }
+
+  protected _openStream(path: string, flags: string): WriteStream {
+    const stream = createWriteStream(path, { flags });
+    // Without a listener, stream errors (e.g. a missing directory) would crash the process
+    stream.on('error', (err) => this._reportError('write', `Failed to write to '${path}'`, err));
+    return stream;
+  }
+
+  protected _reportError(phase: InternalErrorPhase, message: string, error: unknown): void {
+    if (this.onError) {
+      this.onError(phase, message, error);
+    } else if (console && console.error) {
+      console.error(`LogM8 [${this.name}]: ${message}${error === undefined ? '' : `: ${error}`}`);
+    }
+  }
+
+  protected _writeLine(line: string, _event: LogEvent): void {
+    this._stream?.write(line);
   }
 }
 
@@ -149,6 +190,13 @@ class FileAppenderFactory implements PluginFactory<FileAppenderConfig, FileAppen
   public name = NAME;
   public version = VERSION;
   public kind = KIND;
+  public schema: ConfigSchema = {
+    type: 'object',
+    properties: {
+      filename: { type: 'string', description: 'Destination file path' },
+      append: { type: 'boolean', description: 'Append to an existing file' },
+    },
+  };
 
   public create(config: AppenderConfig): FileAppender {
     const appender = new FileAppender();
@@ -0,0 +1,404 @@
+import { createReadStream, createWriteStream, existsSync, promises as fsp, statSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import { pipeline } from 'stream';
+import { createGzip } from 'zlib';
+
+import type { AppenderConfig } from '../AppenderConfig.ts';
+import type { ConfigSchema } from '../ConfigSchema.ts';
+import type { LogEvent } from '../LogEvent.ts';
+import { LogM8Utils } from '../LogM8Utils.ts';
+import type { PluginFactory } from '../PluginFactory.ts';
+import { PluginKind } from '../PluginKind.ts';
+import { FileAppender, type FileAppenderConfig } from './FileAppender.ts';
+
+const NAME = 'rolling-file';
+const VERSION = '1.0.0';
+const KIND = PluginKind.appender;
+
+const DEFAULT_FILENAME = 'app.%d{yyyy-MM-dd}.%i.log';
+const DEFAULT_DATE_FORMAT = 'yyyy-MM-dd';
+const GZIP_EXTENSION = '.gz';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Matches the filename pattern tokens: %d (optionally with a {format}) and %i.
+ */
+const FILENAME_TOKEN_REGEX = /%d(\{[^}]*\})?|%i/g;
+
+/**
+ * Time-based rollover interval for the rolling file appender.
+ */
+export type RollingInterval = 'daily' | 'hourly';
+
+/**
+ * Configuration options for the rolling file appender.
+ *
+ * - filename: File name pattern. Supports `%d{format}` (date of the current period,
+ *             using LogM8Utils.formatTimestamp tokens; `%d` alone is `yyyy-MM-dd`)
+ *             and `%i` (rollover index within the period, starting at 0).
+ * - maxSize:  Roll over when the active file would exceed this many bytes.
+ * - interval: Roll over on each 'daily' or 'hourly' boundary (local time).
+ * - maxFiles: Number of rolled (inactive) files to keep; older ones are deleted.
+ * - compress: Gzip rolled files in the background (`<file>.gz`).
+ * - maxAge:   Delete rolled files older than this many days.
+ * - maxTotalSize: Delete the oldest rolled files while their combined size exceeds this many bytes.
+ */
+export interface RollingFileAppenderConfig extends FileAppenderConfig {
+  /** Maximum size of the active file in bytes before rolling over. */
+  maxSize?: number;
+  /** Time boundary on which to roll over to a new file. */
+  interval?: RollingInterval;
+  /** Maximum number of rolled files to keep, not counting the active file. */
+  maxFiles?: number;
+  /** Gzip-compress rolled files once they are closed. Default: false */
+  compress?: boolean;
+  /** Maximum age of rolled files in days before they are deleted. */
+  maxAge?: number;
+  /** Maximum combined size in bytes of rolled files, not counting the active file. */
+  maxTotalSize?: number;
+}
+
+/**
+ * Appender that writes log lines to a file and rolls over to a new file by size and/or time.
+ *
+ * Behavior
+ * - Writes directly to the file named by the `filename` pattern for the current period and index;
+ *   rolled files are never renamed.
+ * - On a size rollover the index (`%i`) is incremented; on a time rollover the date (`%d`) changes
+ *   and the index restarts at 0. If the pattern has no `%i`, indices above 0 are appended as `.N`.
+ *   Names already in use are skipped, so a date coarser than the interval (e.g. `%d{yyyy-MM-dd}`
+ *   rolled hourly) continues the index instead of truncating a file; such patterns are reported.
+ * - On startup the highest existing index for the current period is resumed with `append: true`;
+ *   otherwise writing starts at the next index, so files from earlier runs are never overwritten.
+ * - When `compress` is set, each rolled file is gzipped in the background once its stream has
+ *   closed; the original is removed only after the archive is complete. A failed compression
+ *   leaves the original file in place and never affects live writes.
+ * - Retention (`maxFiles`, `maxAge`, `maxTotalSize`) is applied in the background on startup and
+ *   after each rollover (and after compression), deleting the oldest rolled files first.
+ */
+class RollingFileAppender extends FileAppender {
+  public name = NAME;
+  public version = VERSION;
+  public kind = KIND;
+
+  private _filename = DEFAULT_FILENAME;
+  private _index = 0;
+  private _size = 0;
+  private _periodStart = 0;
+  private _nextRolloverAt = Number.POSITIVE_INFINITY;
+  private _currentFile?: string;
+  private _compressing = new Set<string>();
+  private _pending = new Set<Promise<void>>();
+
+  /**
+   * Ends the active stream and resolves once it is closed and all background
+   * compression and retention work has finished.
+   */
+  public override async dispose(): Promise<void> {
+    const closed = super.dispose();
+    this._currentFile = undefined;
+    await Promise.all([closed, ...this._pending]);
+  }
+
+  /**
+   * Resolves once lines written to the active file and to files rolled over before have
+   * reached the disk, including the background compression and retention of rolled files.
+   */
+  public override async flush(): Promise<void> {
+    await Promise.all([super.flush(), ...this._pending]);
+  }
+
+  /**
+   * Returns the path of the file currently being written, if any.
+   */
+  public get currentFile(): string | undefined {
+    return this._currentFile;
+  }
+
+  private get _rollingConfig(): RollingFileAppenderConfig | undefined {
+    return this._config as RollingFileAppenderConfig | undefined;
+  }
+
+  protected override _createStream(): void {
+    const config = this._config;
+    this._filename = config?.filename ?? DEFAULT_FILENAME;
+    this._startPeriod(Date.now());
+    this._checkDatePattern();
+
+    // Find the newest file of the current period so earlier files are never overwritten
+    this._index = 0;
+    while (this._isTaken(this._resolveFilename(this._index + 1))) this._index++;
+
+    // Resume it when appending (unless already archived), otherwise start the next index
+    const newest = this._resolveFilename(this._index);
+    const append = !!config?.append;
+    if (append ? existsSync(newest + GZIP_EXTENSION) : this._isTaken(newest)) this._index++;
+    this._openFile(append ? 'a' : 'w');
+
+    // Apply retention to files left by earlier runs without waiting for a rollover
+    this._track(this._cleanup());
+  }
+
+  protected override _writeLine(line: string, event: LogEvent): void {
+    const bytes = Buffer.byteLength(line);
+    const maxSize = this._rollingConfig?.maxSize;
+
+    const time = event.timestamp.getTime();
+    if (time >= this._nextRolloverAt) {
+      this._startPeriod(time);
+      this._index = this._filename.includes('%d') ? 0 : this._index + 1;
+      this._rollover();
+    } else if (maxSize && maxSize > 0 && this._size > 0 && this._size + bytes > maxSize) {
+      this._index++;
+      this._rollover();
+    }
+
+    this._stream?.write(line);
+    this._size += bytes;
+  }
+
+  /**
+   * Deletes the oldest rolled files beyond the configured retention limits.
+   */
+  private _cleanup(): Promise<void> {
+    const { maxFiles, maxAge, maxTotalSize } = this._rollingConfig ?? {};
+    if (maxFiles == null && maxAge == null && maxTotalSize == null) return Promise.resolve();
+
+    return this._listRolledFiles()
+      .then(async (files) => {
+        const expired = new Set<string>();
+        if (maxAge != null && maxAge >= 0) {
+          const cutoff = Date.now() - maxAge * DAY_MS;
+          files.filter((f) => f.mtimeMs < cutoff).forEach((f) => expired.add(f.path));
+        }
+        if (maxFiles != null && maxFiles >= 0) {
+          files.slice(0, Math.max(0, files.length - maxFiles)).forEach((f) => expired.add(f.path));
+        }
+        if (maxTotalSize != null && maxTotalSize >= 0) {
+          // Newest files are kept first; everything beyond the size budget is removed
+          let total = 0;
+          for (let i = files.length - 1; i >= 0; i--) {
+            total += files[i].size;
+            if (total > maxTotalSize) expired.add(files[i].path);
+          }
+        }
+        for (const path of expired) {
+          await fsp.rm(path, { force: true });
+        }
+      })
+      .catch((err) => this._reportError('rollover', 'Failed to clean up rolled files', err));
+  }
+
+  /**
+   * Lists rolled files (excluding the active file) matching the filename pattern,
+   * oldest first.
+   */
+  private async _listRolledFiles(): Promise<{ path: string; mtimeMs: number; size: number }[]> {
+    const dir = dirname(this._filename);
+    const matcher = this._buildMatcher();
+    const current = this._currentFile ? resolve(this._currentFile) : undefined;
+    const names = await fsp.readdir(dir);
+    const files: { path: string; mtimeMs: number; size: number }[] = [];
+    for (const name of names) {
+      const path = join(dir, name);
+      const resolved = resolve(path);
+      if (!matcher.test(name) || resolved === current || this._compressing.has(resolved)) continue;
+      try {
+        const stat = await fsp.stat(path);
+        files.push({ path, mtimeMs: stat.mtimeMs, size: stat.size });
+      } catch (_err) {
+        // File removed concurrently
+      }
+    }
+    return files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  }
+
+  private _rollover(): void {
+    const rolledFile = this._currentFile;
+    const rolledStream = this._stream;
+
+    // Skip names already in use, e.g. when the date pattern is coarser than the interval
+    while (this._isTaken(this._resolveFilename(this._index))) this._index++;
+    this._openFile('w');
+
+    // The rolled file is closed in the background; flush() and dispose() wait for it
+    const closed = new Promise<void>((res) => {
+      if (!rolledStream || rolledStream.closed) return res();
+      rolledStream.once('close', () => res());
+      rolledStream.end();
+    });
+
+    if (!this._rollingConfig?.compress || !rolledFile) {
+      this._track(closed.then(() => this._cleanup()));
+      return;
+    }
+
+    // Compress only once the rolled file has been fully written and closed
+    this._compressing.add(resolve(rolledFile));
+    this._track(closed.then(() => this._compress(rolledFile)).then(() => this._cleanup()));
+  }
+
+  private _track(task: Promise<void>): void {
+    this._pending.add(task);
+    void task.finally(() => this._pending.delete(task));
+  }
+
+  private async _compress(file: string): Promise<void> {
+    const archive = file + GZIP_EXTENSION;
+    try {
+      const stat = await fsp.stat(file);
+      await new Promise<void>((res, rej) => {
+        pipeline(createReadStream(file), createGzip(), createWriteStream(archive), (err) =>
+          err ? rej(err) : res(),
+        );
+      });
+      // Preserve the original modification time so age-based retention stays accurate
+      await fsp.utimes(archive, stat.atime, stat.mtime);
+      await fsp.unlink(file);
+    } catch (err) {
+      this._reportError('rollover', `Failed to compress '${file}'`, err);
+      await fsp.rm(archive, { force: true }).catch(() => {});
+    } finally {
+      this._compressing.delete(resolve(file));
+    }
+  }
+
+  private _openFile(flags: string): void {
+    const file = this._resolveFilename(this._index);
+    this._currentFile = file;
+    this._size = 0;
+    if (flags === 'a') {
+      try {
+        this._size = statSync(file).size;
+      } catch (_err) {
+        // File does not exist yet
+      }
+    }
+    this._stream = this._openStream(file, flags);
+  }
+
+  /**
+   * Whether a file name is the active file or exists on disk, plain or compressed.
+   */
+  private _isTaken(file: string): boolean {
+    return file === this._currentFile || existsSync(file) || existsSync(file + GZIP_EXTENSION);
+  }
+
+  /**
+   * Warns when the `%d` date does not change every interval, so consecutive periods
+   * share a date and only the index tells their files apart.
+   */
+  private _checkDatePattern(): void {
+    const interval = this._rollingConfig?.interval;
+    const formats = [...this._filename.matchAll(FILENAME_TOKEN_REGEX)]
+      .filter(([token]) => token !== '%i')
+      .map(([, fmt]) => (fmt ? fmt.slice(1, -1) : DEFAULT_DATE_FORMAT))
+      .join(' ');
+    if (!interval || !formats) return;
+
+    const changes = /dd/.test(formats) && (interval === 'daily' || /h/.test(formats));
+    if (!changes) {
+      this._reportError(
+        'config',
+        `The date in '${this._filename}' does not change every ${interval === 'hourly' ? 'hour' : 'day'}; periods continue the index of the previous one`,
+        undefined,
+      );
+    }
+  }
+
+  private _startPeriod(time: number): void {
+    const interval = this._rollingConfig?.interval;
+    if (!interval) {
+      this._periodStart = time;
+      this._nextRolloverAt = Number.POSITIVE_INFINITY;
+      return;
+    }
+
+    // Boundaries are computed in local time to match the formatted date tokens
+    const d = new Date(time);
+    const start =
+      interval === 'hourly'
+        ? new Date(d.getFullYear(), d.getMonth(), d.getDate(), d.getHours())
+        : new Date(d.getFullYear(), d.getMonth(), d.getDate());
+    const next = new Date(start);
+    if (interval === 'hourly') next.setHours(next.getHours() + 1);
+    else next.setDate(next.getDate() + 1);
+
+    this._periodStart = start.getTime();
+    this._nextRolloverAt = next.getTime();
+  }
+
+  private _resolveFilename(index: number): string {
+    const date = new Date(this._periodStart);
+    const hasIndex = this._filename.includes('%i');
+    const name = this._filename.replace(FILENAME_TOKEN_REGEX, (token, fmt?: string) => {
+      if (token === '%i') return String(index);
+      return LogM8Utils.formatTimestamp(date, fmt ? fmt.slice(1, -1) : DEFAULT_DATE_FORMAT);
+    });
+    return !hasIndex && index > 0 ? `${name}.${index}` : name;
+  }
+
+  private _buildMatcher(): RegExp {
+    const escape = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = basename(this._filename);
+    const hasIndex = pattern.includes('%i');
+
+    let source = '';
+    let last = 0;
+    for (const match of pattern.matchAll(FILENAME_TOKEN_REGEX)) {
+      source += escape(pattern.slice(last, match.index));
+      if (match[0] === '%i') {
+        source += '\\d+';
+      } else {
+        const fmt = match[1] ? match[1].slice(1, -1) : DEFAULT_DATE_FORMAT;
+        source += LogM8Utils.timestampPattern(fmt);
+      }
+      last = (match.index ?? 0) + match[0].length;
+    }
+    source += escape(pattern.slice(last));
+    if (!hasIndex) source += '(?:\\.\\d+)?';
+
+    return new RegExp(`^${source}(?:${escape(GZIP_EXTENSION)})?$`);
+  }
+}
+
+class RollingFileAppenderFactory
+  implements PluginFactory<RollingFileAppenderConfig, RollingFileAppender>
+{
+  public name = NAME;
+  public version = VERSION;
+  public kind = KIND;
+  public schema: ConfigSchema = {
+    type: 'object',
+    properties: {
+      filename: { type: 'string', description: 'File name pattern with %d{format} and %i tokens' },
+      append: { type: 'boolean', description: 'Append to an existing file' },
+      maxSize: { type: 'number', minimum: 0, description: 'Size in bytes that triggers a roll' },
+      interval: {
+        type: 'string',
+        enum: ['daily', 'hourly'],
+        description: 'Time-based roll period',
+      },
+      maxFiles: { type: 'integer', minimum: 0, description: 'Number of rolled files to keep' },
+      compress: { type: 'boolean', description: 'Gzip rolled files' },
+      maxAge: {
+        type: 'number',
+        minimum: 0,
+        description: 'Age in days after which rolled files are deleted',
+      },
+      maxTotalSize: {
+        type: 'number',
+        minimum: 0,
+        description: 'Total size in bytes of rolled files to keep',
+      },
+    },
+  };
+
+  public create(config: AppenderConfig): RollingFileAppender {
+    const appender = new RollingFileAppender();
+    appender.init(config);
+    return appender;
+  }
+}
+
+export { RollingFileAppender, RollingFileAppenderFactory };
@@ -1,3 +1,4 @@
+import type { ConfigSchema } from '../ConfigSchema.ts';
 import type { Filter } from '../Filter.ts';
 import type { FilterConfig } from '../FilterConfig.ts';
 import type { LogEvent } from '../LogEvent.ts';
@@ -188,6 +189,13 @@ class MatchFilterFactory implements PluginFactory<MatchFilterConfig, MatchFilter
   public name = 'match-filter';
   public version = '1.0.0';
   public kind = PluginKind.filter;
+  public schema: ConfigSchema = {
+    type: 'object',
+    properties: {
+      allow: { type: 'object', description: 'Path/value pairs that must all match' },
+      deny: { type: 'object', description: 'Path/value pairs of which any match blocks the event' },
+    },
+  };
 
   public create(config: MatchFilterConfig): MatchFilter {
     const filter = new MatchFilter();
@@ -1,3 +1,5 @@
+import type { ConfigSchema } from '../ConfigSchema.ts';
+import type { CustomLevelConfig } from '../CustomLevelConfig.ts';
 import type { Formatter } from '../Formatter.ts';
 import type { FormatterConfig } from '../FormatterConfig.ts';
 import type { LogEvent } from '../LogEvent.ts';
@@ -70,6 +72,8 @@ export interface DefaultFormatterConfig extends FormatterConfig {
  * - {message}: Primary log message (string or non-string value).
  * - {data}: Additional data arguments array (expanded inline when present alone in a line).
  * - {context.*}: Nested context properties.
+ * - {location.*}: Caller location when captured (file, line, column, function),
+ *   e.g. {location.file}:{location.line}. See LoggingConfig.captureLocation.
  *
  * @example
  * // Text with colors
@@ -97,6 +101,7 @@ class DefaultFormatter implements Formatter {
   private _format!: string[][];
   private _timestampFormat: string = DEFAULT_TIMESTAMP_FORMAT;
   private _levelMap!: Record<string, string | [string, string]>;
+  private _levels: string[] = Object.values(LogLevel);
   private _colorEnabled: boolean = false;
 
   // ANSI color codes for Node.js terminal output
@@ -122,8 +127,6 @@ class DefaultFormatter implements Formatter {
   };
 
   public init(config: DefaultFormatterConfig): void {
-    const isBrowser = LogM8Utils.isBrowser();
-
     this._config = Object.assign({}, config);
     this._colorEnabled = !!this._config.color;
 
@@ -150,9 +153,25 @@ class DefaultFormatter implements Formatter {
     }
 
     this._timestampFormat = this._config.timestampFormat ?? DEFAULT_TIMESTAMP_FORMAT;
+    this._buildLevelMap();
+  }
+
+  public setCustomLevels(levels: CustomLevelConfig[]): void {
+    this._levels = [...Object.values(LogLevel), ...levels.map((l) => l.name)];
+    for (const { name, color, css } of levels) {
+      if (color !== undefined) this._levelColorMap[name] = color;
+      if (css !== undefined) this._levelCssColorMap[name] = css;
+    }
+    this._buildLevelMap();
+  }
+
+  public dispose(): void {}
+
+  private _buildLevelMap(): void {
+    const isBrowser = LogM8Utils.isBrowser();
 
     // Build level display map with padding and optional colorization
-    const levelValues = Object.values(LogLevel);
+    const levelValues = this._levels;
     const maxLevelLength = Math.max(...levelValues.map((l) => l.length));
 
     this._levelMap = levelValues.reduce(
@@ -178,8 +197,6 @@ class DefaultFormatter implements Formatter {
     );
   }
 
-  public dispose(): void {}
-
   public format(logEvent: LogEvent): unknown[] {
     let output: unknown[] | undefined;
 
@@ -239,6 +256,18 @@ class DefaultFormatterFactory implements PluginFactory<DefaultFormatterConfig, D
   public name = NAME;
   public version = VERSION;
   public kind = KIND;
+  public schema: ConfigSchema = {
+    type: 'object',
+    properties: {
+      format: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        description: 'Format template',
+      },
+      timestampFormat: { type: 'string', description: 'Timestamp format pattern or preset' },
+      color: { type: 'boolean', description: 'Colorize levels with ANSI or CSS styles' },
+    },
+  };
 
   public create(config: DefaultFormatterConfig): DefaultFormatter {
     const appender = new DefaultFormatter();
@@ -1,3 +1,4 @@
+import type { ConfigSchema } from '../ConfigSchema.ts';
 import type { Formatter } from '../Formatter.ts';
 import type { FormatterConfig } from '../FormatterConfig.ts';
 import type { LogEvent } from '../LogEvent.ts';
@@ -9,7 +10,7 @@ const NAME = 'json-formatter';
 const VERSION = '1.0.0';
 const KIND = PluginKind.formatter;
 
-const DEFAULT_FORMAT = ['timestamp', 'level', 'logger', 'message', 'data'];
+const DEFAULT_FORMAT = ['timestamp', 'level', 'logger', 'message', 'template', 'data', 'location'];
 const DEFAULT_TIMESTAMP_FORMAT = 'iso';
 const DEFAULT_PRETTY = 2;
 const DEFAULT_MAX_DEPTH = 3;
@@ -26,7 +27,9 @@ export interface JsonFormatterConfig extends FormatterConfig {
   /**
    * Fields to include in the output object.
    * Accepts a single field or an array of fields. Defaults to
-   * ['timestamp', 'level', 'logger', 'message', 'data'].
+   * ['timestamp', 'level', 'logger', 'message', 'template', 'data', 'location'].
+   * 'template' is only present for interpolated messages (see LoggingConfig.interpolate)
+   * and 'location' only when caller locations are captured (see LoggingConfig.captureLocation).
    *
    * Each entry is used as the object key and resolved via dot-path on the LogEvent.
    * Special handling:
@@ -85,6 +88,8 @@ export interface JsonFormatterConfig extends FormatterConfig {
  * - Special tokens:
  *   - 'timestamp': formatted per `timestampFormat`.
  *   - 'LEVEL': raw level string (lowercase; no color or padding).
+ * - Interpolated events emit the rendered 'message' alongside the raw 'template',
+ *   which stays stable across events for grouping.
  * - If `format` is empty, the entire LogEvent object is serialized.
  *
  * Examples
@@ -189,6 +194,24 @@ class JsonFormatterFactory implements PluginFactory<JsonFormatterConfig, JsonFor
   public name = NAME;
   public version = VERSION;
   public kind = KIND;
+  public schema: ConfigSchema = {
+    type: 'object',
+    properties: {
+      format: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        description: 'Fields to output',
+      },
+      pretty: {
+        type: ['boolean', 'integer'],
+        description: 'Pretty print, optionally with an indent',
+      },
+      timestampFormat: { type: 'string', description: 'Timestamp format pattern or preset' },
+      maxDepth: { type: 'integer', minimum: 0, description: 'Maximum depth of serialized data' },
+      maxStringLen: { type: 'integer', minimum: 0, description: 'Maximum length of strings' },
+      maxArrayLen: { type: 'integer', minimum: 0, description: 'Maximum length of arrays' },
+    },
+  };
 
   public create(config: JsonFormatterConfig): JsonFormatter {
     const appender = new JsonFormatter();
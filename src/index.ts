@@ -1,35 +1,66 @@
 import { LogM8 as Logging } from './LogM8.ts';
+import type { LogM8Options } from './LogM8Options.ts';
 
 // Type exports for public API
 export { PACKAGE_INFO } from './_generated/package_info.ts';
 export { type Appender } from './Appender.ts';
 export { type AppenderConfig } from './AppenderConfig.ts';
 export { type ConsoleAppenderConfig } from './appenders/ConsoleAppender.ts';
+export { type BufferConfig, type BufferOverflowPolicy } from './BufferConfig.ts';
+export { type CaptureErrorsConfig } from './CaptureErrorsConfig.ts';
+export { type CaptureLocationConfig } from './CaptureLocationConfig.ts';
+export { type ConfigSchema, type ConfigSchemaType } from './ConfigSchema.ts';
+export { type ConfigProblem } from './ConfigValidator.ts';
+export { type ConsoleCaptureConfig, type ConsoleMethod } from './ConsoleCaptureConfig.ts';
 /* NODEJS:START */
 export { type FileAppenderConfig } from './appenders/FileAppender.ts';
+export {
+  type RollingFileAppenderConfig,
+  type RollingInterval,
+} from './appenders/RollingFileAppender.ts';
+export { type ConfigFileOptions, type ConfigParser } from './ConfigFileOptions.ts';
 /* NODEJS:END */
+export { type CustomLevelConfig, type CustomLevelConsoleMethod } from './CustomLevelConfig.ts';
+export { type DiagnosticsConfig, type DiagnosticsMode } from './DiagnosticsConfig.ts';
+export { type EnvConfig } from './EnvConfig.ts';
 export { type Filter } from './Filter.ts';
 export { type FilterConfig } from './FilterConfig.ts';
 export { type MatchFilterConfig } from './filters/MatchFilter.ts';
 export { type Formatter } from './Formatter.ts';
 export { type FormatterConfig } from './FormatterConfig.ts';
 export { type DefaultFormatterConfig } from './formatters/DefaultFormatter.ts';
-export { type Log } from './Log.ts';
+export {
+  type InternalError,
+  type InternalErrorHandler,
+  type InternalErrorPhase,
+} from './InternalError.ts';
+export { type CustomLevelLog, type Log, type LogMessageFactory } from './Log.ts';
 export { type LogContext } from './LogContext.ts';
-export { type LoggingConfig } from './LoggingConfig.ts';
+export { type LoggerConfig } from './LoggerConfig.ts';
+export { type ConfigValidationMode, type LoggingConfig } from './LoggingConfig.ts';
 export { LogLevel, type LogLevelType } from './LogLevel.ts';
+export { type LogLocation } from './LogLocation.ts';
+export { type LogM8Options } from './LogM8Options.ts';
 export { LogM8Utils } from './LogM8Utils.ts';
+export {
+  type AppenderCounts,
+  type AppenderStats,
+  type EventCounts,
+  type LogStats,
+} from './LogStats.ts';
 export { NullLogger } from './NullLogger.ts';
-export { type Plugin } from './Plugin.ts';
+export { type Plugin, type PluginErrorReporter } from './Plugin.ts';
 export { type PluginConfig } from './PluginConfig.ts';
 export { type PluginFactory } from './PluginFactory.ts';
 export { PluginKind, type PluginKindType } from './PluginKind.ts';
+export { type ShutdownConfig, type ShutdownEvent } from './ShutdownConfig.ts';
 
 /**
  * Default singleton instance of the LogM8 logging manager.
  *
  * Pre-configured with built-in appenders and formatters for immediate use.
- * Most applications should use this export rather than creating new LogM8 instances.
+ * Most applications should use this export; libraries that need a private instance
+ * use createLogM8() instead.
  *
  * @example
  * ```typescript
@@ -44,4 +75,38 @@ export { PluginKind, type PluginKindType } from './PluginKind.ts';
  * ```
  */
 const LogM8 = new Logging();
-export { LogM8 };
+
+/**
+ * Type of LogM8 instances: the default `LogM8` singleton and instances created
+ * with createLogM8().
+ */
+type LogM8Instance = Logging;
+
+/**
+ * Creates an isolated LogM8 instance.
+ *
+ * The instance has its own plugin factory registry (pre-populated with the built-in
+ * factories), loggers, appenders, buffer and configuration, so libraries can log
+ * through a private instance that never collides with the application's `LogM8`
+ * singleton. Process-wide hooks (captureConsole, captureErrors, shutdown) are still
+ * global by nature and best left to the application.
+ *
+ * @param options - Instance options, such as the buffer for events logged before init()
+ * @returns A new, uninitialized LogM8 instance
+ *
+ * @example
+ * ```typescript
+ * import { createLogM8 } from 'log-m8';
+ *
+ * const logging = createLogM8();
+ * logging.registerPluginFactory(new MyLibraryAppenderFactory());
+ * logging.init({ appenders: ['my-library'] });
+ *
+ * const logger = logging.getLogger('my-library');
+ * ```
+ */
+function createLogM8(options?: LogM8Options): LogM8Instance {
+  return new Logging(options);
+}
+
+export { createLogM8, LogM8, type LogM8Instance };
@@ -105,7 +105,7 @@ describe('Filter Integration Tests', () => {
     vi.restoreAllMocks();
   });
 
-  it('should apply filters to console appender', () => {
+  it('should apply filters to console appender', async () => {
     const logM8 = new LogM8();
     const errorOnlyFactory = new ErrorOnlyFilterFactory();
 
@@ -146,10 +146,10 @@ describe('Filter Integration Tests', () => {
       }),
     );
 
-    logM8.dispose();
+    await logM8.dispose();
   });
 
-  it('should apply multiple filters with AND semantics', () => {
+  it('should apply multiple filters with AND semantics', async () => {
     const logM8 = new LogM8();
     const errorOnlyFactory = new ErrorOnlyFilterFactory();
     const loggerDenyFactory = new LoggerDenyFilterFactory();
@@ -190,10 +190,10 @@ describe('Filter Integration Tests', () => {
       }),
     );
 
-    logM8.dispose();
+    await logM8.dispose();
   });
 
-  it('should handle filter initialization errors gracefully', () => {
+  it('should handle filter initialization errors gracefully', async () => {
     const logM8 = new LogM8();
 
     // Try to initialize with an unknown filter
@@ -208,10 +208,10 @@ describe('Filter Integration Tests', () => {
       }),
     ).toThrow("Plugin factory kind 'filter' with name 'unknown-filter' not found");
 
-    logM8.dispose();
+    await logM8.dispose();
   });
 
-  it('should handle filters that throw during evaluation', () => {
+  it('should handle filters that throw during evaluation', async () => {
     const logM8 = new LogM8();
 
     // Create a filter that throws during filter
@@ -257,10 +257,10 @@ describe('Filter Integration Tests', () => {
     // The console should not have been called due to the filter error
     expect(console.info).not.toHaveBeenCalled();
 
-    logM8.dispose();
+    await logM8.dispose();
   });
 
-  it('should work without any filters configured', () => {
+  it('should work without any filters configured', async () => {
     const logM8 = new LogM8();
 
     logM8.init({
@@ -283,10 +283,10 @@ describe('Filter Integration Tests', () => {
       }),
     );
 
-    logM8.dispose();
+    await logM8.dispose();
   });
 
-  it('should support different filters per appender', () => {
+  it('should support different filters per appender', async () => {
     const logM8 = new LogM8();
     const errorOnlyFactory = new ErrorOnlyFilterFactory();
     const loggerDenyFactory = new LoggerDenyFilterFactory();
@@ -332,6 +332,6 @@ describe('Filter Integration Tests', () => {
     // Console should only receive error messages (not from secret logger)
     expect(console.error).toHaveBeenCalledTimes(2);
 
-    logM8.dispose();
+    await logM8.dispose();
   });
 });
@@ -1,3 +1,4 @@
+import { readFileSync, rmSync } from 'fs';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { LogLevel } from '../../src/LogLevel.ts';
@@ -12,16 +13,16 @@ describe('LogM8 integration', () => {
     vi.restoreAllMocks();
   });
 
-  it('zero-config init logs to console via info', () => {
+  it('zero-config init logs to console via info', async () => {
     const m = new LogM8();
     m.init();
     const logger = m.getLogger('root');
     logger.info('hello');
     expect(console.info).toHaveBeenCalled();
-    m.dispose();
+    await m.dispose();
   });
 
-  it('disabled levels are fast to skip', () => {
+  it('disabled levels are fast to skip', async () => {
     const m = new LogM8();
     m.init();
     const logger = m.getLogger('root');
@@ -30,6 +31,19 @@ describe('LogM8 integration', () => {
     for (let i = 0; i < 5000; i++) logger.debug('x', i);
     const dt = Date.now() - t0;
     expect(dt).toBeLessThan(5000);
-    m.dispose();
+    await m.dispose();
+  });
+
+  it('dispose resolves once file appenders have written all events', async () => {
+    const filename = 'logm8.integration.test.tmp';
+    const m = new LogM8();
+    m.init({ appenders: [{ name: 'file', filename, formatter: 'default-formatter' }] });
+    const logger = m.getLogger('root');
+    for (let i = 0; i < 50; i++) logger.info('line', i);
+    await m.dispose();
+
+    const lines = readFileSync(filename, 'utf8').trimEnd().split('\n');
+    rmSync(filename);
+    expect(lines).toHaveLength(50);
   });
 });
@@ -77,7 +77,7 @@ class ComplexFilter implements Filter {
 }
 
 describe('Filter Performance Tests', () => {
-  it('should handle high-volume logging with filters efficiently', () => {
+  it('should handle high-volume logging with filters efficiently', async () => {
     const logM8 = new LogM8();
 
     // Register individual filter factories
@@ -122,10 +122,10 @@ describe('Filter Performance Tests', () => {
     // Should handle at least 10 events per millisecond (quite conservative)
     expect(eventsPerMs).toBeGreaterThan(10);
 
-    logM8.dispose();
+    await logM8.dispose();
   });
 
-  it('should handle multiple complex filters without significant performance impact', () => {
+  it('should handle multiple complex filters without significant performance impact', async () => {
     const logM8 = new LogM8();
 
     // Register individual filter factories
@@ -194,10 +194,10 @@ describe('Filter Performance Tests', () => {
     // Should still complete quickly even with multiple complex filters
     expect(duration).toBeLessThan(1000);
 
-    logM8.dispose();
+    await logM8.dispose();
   });
 
-  it('should not cause memory leaks during long-running filter evaluation', () => {
+  it('should not cause memory leaks during long-running filter evaluation', async () => {
     const logM8 = new LogM8();
 
     // Register individual filter factory
@@ -240,10 +240,10 @@ describe('Filter Performance Tests', () => {
     // Test passes if no memory errors occur
     expect(true).toBe(true);
 
-    logM8.dispose();
+    await logM8.dispose();
   });
 
-  it('should handle filters that short-circuit efficiently', () => {
+  it('should handle filters that short-circuit efficiently', async () => {
     // Create a filter that denies everything to test short-circuit behavior
     class DenyAllFilter implements Filter {
       name = 'deny-all';
@@ -311,6 +311,6 @@ describe('Filter Performance Tests', () => {
     // Should be very fast since events are denied immediately
     expect(duration).toBeLessThan(100);
 
-    logM8.dispose();
+    await logM8.dispose();
   });
 });
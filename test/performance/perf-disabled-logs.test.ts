@@ -4,7 +4,7 @@ import { LogLevel } from '../../src/LogLevel.ts';
 import { LogM8 } from '../../src/LogM8.ts';
 
 describe('Performance - disabled logs fast', () => {
-  it('debug when level=error should be very fast', () => {
+  it('debug when level=error should be very fast', async () => {
     const m = new LogM8();
     m.init();
     const logger = m.getLogger('perf');
@@ -13,6 +13,6 @@ describe('Performance - disabled logs fast', () => {
     for (let i = 0; i < 10000; i++) logger.debug('x', i);
     const dt = Date.now() - t0;
     expect(dt).toBeLessThan(200); // loose bound, environment-dependent
-    m.dispose();
+    await m.dispose();
   });
 });
@@ -36,7 +36,7 @@ describe('Security/Resilience', () => {
       context: {},
       timestamp: new Date(),
     });
-    a.dispose();
+    await a.dispose();
     await new Promise((r) => setTimeout(r, 5));
     const text = readFileSync('security.tmp', 'utf8');
     expect(text.length).toBeGreaterThan(0);
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Appender } from '../../src/Appender.ts';
+import type { AppenderConfig } from '../../src/AppenderConfig.ts';
+import type { LogEvent } from '../../src/LogEvent.ts';
+import { LogLevel } from '../../src/LogLevel.ts';
+import { LogM8 } from '../../src/LogM8.ts';
+import type { PluginFactory } from '../../src/PluginFactory.ts';
+import { PluginKind } from '../../src/PluginKind.ts';
+
+class CollectingAppender implements Appender {
+  name = 'collect';
+  version = '1.0.0';
+  kind = PluginKind.appender;
+  supportedLevels = new Set([LogLevel.fatal, LogLevel.error, LogLevel.warn, LogLevel.info]);
+  enabled = true;
+  events: LogEvent[] = [];
+  init(_config: AppenderConfig): void {}
+  dispose(): void {}
+  write(event: LogEvent): void {
+    this.events.push(event);
+  }
+  flush(): void {}
+  enableFilter(): void {}
+  disableFilter(): void {}
+}
+
+class CollectingAppenderFactory implements PluginFactory {
+  name = 'collect';
+  version = '1.0.0';
+  kind = PluginKind.appender;
+  appender = new CollectingAppender();
+  create(): Appender {
+    return this.appender;
+  }
+}
+
+// process.emit has no typed overload for the monitor event
+const emitMonitor = (error: unknown, origin: string) =>
+  (process.emit as (event: string, ...args: unknown[]) => boolean)(
+    'uncaughtExceptionMonitor',
+    error,
+    origin,
+  );
+
+describe('LogM8 captureErrors', () => {
+  let logm8: LogM8;
+  let factory: CollectingAppenderFactory;
+
+  beforeEach(() => {
+    logm8 = new LogM8();
+    factory = new CollectingAppenderFactory();
+    logm8.registerPluginFactory(factory);
+  });
+  afterEach(async () => {
+    await logm8.dispose();
+    vi.unstubAllGlobals();
+  });
+
+  it('logs uncaught exceptions at fatal and rejections at error with the error in data', () => {
+    const monitors = process.listenerCount('uncaughtExceptionMonitor');
+    logm8.init({ appenders: ['collect'], captureErrors: true });
+    expect(process.listenerCount('uncaughtExceptionMonitor')).toBe(monitors + 1);
+
+    const boom = new Error('boom', { cause: new Error('root cause') });
+    const rejected = new Error('rejected');
+    emitMonitor(boom, 'uncaughtException');
+    emitMonitor(rejected, 'unhandledRejection');
+
+    const [exception, rejection] = factory.appender.events;
+    expect(exception.logger).toBe('uncaught');
+    expect(exception.level).toBe(LogLevel.fatal);
+    expect(exception.message).toBe('Uncaught exception');
+    expect(exception.data[0]).toBe(boom);
+    expect(rejection.level).toBe(LogLevel.error);
+    expect(rejection.message).toBe('Unhandled rejection');
+    expect(rejection.data[0]).toBe(rejected);
+  });
+
+  it('uses the configured logger and levels and removes listeners on dispose', async () => {
+    const monitors = process.listenerCount('uncaughtExceptionMonitor');
+    logm8.init({
+      appenders: ['collect'],
+      captureErrors: { logger: 'app.crash', rejectionLevel: LogLevel.fatal },
+    });
+    emitMonitor(new Error('x'), 'unhandledRejection');
+
+    expect(factory.appender.events[0].logger).toBe('app.crash');
+    expect(factory.appender.events[0].level).toBe(LogLevel.fatal);
+
+    await logm8.dispose();
+    expect(process.listenerCount('uncaughtExceptionMonitor')).toBe(monitors);
+  });
+
+  it('leaves unhandledRejection listeners to the application', () => {
+    const rejections = process.listenerCount('unhandledRejection');
+    logm8.init({ appenders: ['collect'], captureErrors: true });
+
+    // A listener would stop the default crash on unhandled rejections
+    expect(process.listenerCount('unhandledRejection')).toBe(rejections);
+  });
+
+  it('listens for window error and unhandledrejection events in the browser', () => {
+    const win = Object.assign(new EventTarget(), { document: {} });
+    vi.stubGlobal('window', win);
+    logm8.init({ appenders: ['collect'], captureErrors: true });
+
+    const error = new Error('page error');
+    win.dispatchEvent(Object.assign(new Event('error'), { error }));
+    win.dispatchEvent(Object.assign(new Event('unhandledrejection'), { reason: 'nope' }));
+
+    const [exception, rejection] = factory.appender.events;
+    expect(exception.level).toBe(LogLevel.fatal);
+    expect(exception.data[0]).toBe(error);
+    expect(rejection.level).toBe(LogLevel.error);
+    expect(rejection.data[0]).toBe('nope');
+  });
+});
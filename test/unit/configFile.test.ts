@@ -0,0 +1,96 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { LogM8 } from '../../src/LogM8.ts';
+
+describe('LogM8 initFromFile', () => {
+  let dir: string;
+  let logm8: LogM8;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'logm8-config-'));
+    logm8 = new LogM8();
+  });
+  afterEach(async () => {
+    await logm8.dispose();
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('applies a JSON config file', () => {
+    const file = join(dir, 'logging.json');
+    writeFileSync(file, JSON.stringify({ level: 'warn', loggers: { 'app.payments': 'debug' } }));
+
+    logm8.initFromFile(file);
+
+    expect(logm8.getLogger('app').level).toBe('warn');
+    expect(logm8.getLogger('app.payments').level).toBe('debug');
+  });
+
+  it('emits debug events of loggers raised by the file or at runtime', () => {
+    const debug = vi.spyOn(console, 'debug').mockImplementation(() => {});
+    const file = join(dir, 'logging.json');
+    const formatter = { name: 'default-formatter', format: '{logger} {message}' };
+    writeFileSync(
+      file,
+      JSON.stringify({
+        level: 'warn',
+        loggers: { 'app.payments': 'debug' },
+        appenders: [{ name: 'console', formatter }],
+      }),
+    );
+    logm8.initFromFile(file);
+
+    logm8.getLogger('app.payments').debug('charged');
+    logm8.getLogger('app.orders').debug('not raised');
+    logm8.setLevel('debug', 'app.orders');
+    logm8.getLogger('app.orders').debug('raised');
+
+    expect(debug.mock.calls).toEqual([['app.payments charged'], ['app.orders raised']]);
+  });
+
+  it('uses the parser hook and requires one for YAML files', () => {
+    const file = join(dir, 'logging.yaml');
+    writeFileSync(file, 'level: error');
+
+    expect(() => logm8.initFromFile(file)).toThrow(/No parser configured/);
+
+    const parser = vi.fn((content: string) => ({ level: content.split(': ')[1] }));
+    logm8.initFromFile(file, { parser });
+    expect(parser).toHaveBeenCalledWith('level: error', file);
+    expect(logm8.getLogger('app').level).toBe('error');
+  });
+
+  it('rejects invalid files with a diagnostic', () => {
+    const file = join(dir, 'logging.json');
+    writeFileSync(file, JSON.stringify({ level: 'loud', appenders: [{}] }));
+    expect(() => logm8.initFromFile(file)).toThrow(
+      /\$\.level: must be one of[^]*\$\.appenders\[0\]: missing required property 'name'/,
+    );
+
+    writeFileSync(file, '{ not json');
+    expect(() => logm8.initFromFile(file)).toThrow(/Failed to parse config file/);
+  });
+
+  it('re-applies the file on change and keeps the last good config on invalid edits', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const file = join(dir, 'logging.json');
+    writeFileSync(file, JSON.stringify({ level: 'info', appenders: [] }));
+    logm8.initFromFile(file, { watch: true, debounce: 10 });
+    const logger = logm8.getLogger('app.payments');
+    expect(logger.isDebug).toBe(false);
+
+    writeFileSync(
+      file,
+      JSON.stringify({ level: 'info', appenders: [], loggers: { 'app.payments': 'debug' } }),
+    );
+    await vi.waitFor(() => expect(logger.isDebug).toBe(true), { timeout: 2000 });
+
+    writeFileSync(file, JSON.stringify({ level: 'verbose' }));
+    await vi.waitFor(() => expect(error).toHaveBeenCalled(), { timeout: 2000 });
+    expect(String(error.mock.calls[0][1])).toContain('$.level: must be one of');
+    expect(logger.level).toBe('debug');
+  });
+});
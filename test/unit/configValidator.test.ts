@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Appender } from '../../src/Appender.ts';
+import type { ConfigSchema } from '../../src/ConfigSchema.ts';
+import type { LoggingConfig } from '../../src/LoggingConfig.ts';
+import { LogM8 } from '../../src/LogM8.ts';
+import type { PluginFactory } from '../../src/PluginFactory.ts';
+import { PluginKind } from '../../src/PluginKind.ts';
+
+class SlackAppenderFactory implements PluginFactory {
+  name = 'slack';
+  version = '1.0.0';
+  kind = PluginKind.appender;
+  schema: ConfigSchema = {
+    type: 'object',
+    required: ['webhookUrl'],
+    properties: { webhookUrl: { type: 'string' }, channel: { type: 'string' } },
+  };
+  create(): Appender {
+    throw new Error('not used');
+  }
+}
+
+describe('LogM8 config validation', () => {
+  let logm8: LogM8;
+
+  beforeEach(() => {
+    logm8 = new LogM8();
+  });
+  afterEach(async () => {
+    await logm8.dispose();
+    vi.restoreAllMocks();
+  });
+
+  it('reports every problem with its JSON path', () => {
+    const problems = logm8.validateConfig({
+      level: 'verbose',
+      loggers: { 'app.db': 'debug', 'app.http': { level: 'loud', additve: false } },
+      appenders: [
+        'console',
+        {
+          name: 'console',
+          formater: 'json-formatter',
+          filters: [{ name: 'match-filter', alow: {} }],
+        },
+        { name: 'file', filename: 42, formatter: { name: 'json-formatter', pretty: 'yes' } },
+        { name: 'missing' },
+      ],
+      captureErrors: { exceptionLevel: 'fatal', logger: 7 },
+    });
+
+    expect(problems.map((p) => p.path)).toEqual([
+      '$.level',
+      '$.loggers["app.http"].level',
+      '$.loggers["app.http"].additve',
+      '$.captureErrors.logger',
+      '$.appenders[1].formater',
+      '$.appenders[1].filters[0].alow',
+      '$.appenders[2].filename',
+      '$.appenders[2].formatter.pretty',
+      '$.appenders[3].name',
+    ]);
+    expect(problems[2].message).toBe("unknown property 'additve' (did you mean 'additive'?)");
+    expect(problems[4].message).toBe("unknown property 'formater' (did you mean 'formatter'?)");
+    expect(problems[7].message).toBe('must be boolean or integer');
+    expect(problems[8].message).toBe("no appender factory named 'missing' is registered");
+  });
+
+  it('validates plugin options against schemas contributed by factories', () => {
+    logm8.registerPluginFactory(new SlackAppenderFactory());
+
+    expect(
+      logm8.validateConfig({ appenders: [{ name: 'slack', webhookUrl: 'https://x' }] }),
+    ).toEqual([]);
+    expect(logm8.validateConfig({ appenders: [{ name: 'slack', chanel: '#ops' }] })).toEqual([
+      { path: '$.appenders[0]', message: "missing required property 'webhookUrl'" },
+      {
+        path: '$.appenders[0].chanel',
+        message: "unknown property 'chanel' (did you mean 'channel'?)",
+      },
+    ]);
+  });
+
+  it('warns in lenient mode and throws in strict mode', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const config = { level: 'loud', appenders: [] } as unknown as LoggingConfig;
+
+    logm8.init(config);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('$.level: must be one of'));
+
+    expect(() => logm8.init({ ...config, validation: 'strict' })).toThrow(
+      /LogM8: Invalid configuration:\n {2}\$\.level/,
+    );
+
+    warn.mockClear();
+    logm8.init({ ...config, validation: 'off' });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('accepts level names in any case, like the runtime', () => {
+    const config: LoggingConfig = {
+      level: 'DEBUG',
+      loggers: { app: ' Warn ', 'app.db': { level: 'TRACE' } },
+      appenders: [{ name: 'console', level: 'Info', levels: ['ERROR', 'warn'] }],
+      captureErrors: { rejectionLevel: 'Fatal' },
+      validation: 'strict',
+    };
+
+    expect(logm8.validateConfig(config)).toEqual([]);
+    logm8.init(config);
+    expect(logm8.getLogger('app').level).toBe('warn');
+    expect(logm8.getLogger('app.db').level).toBe('trace');
+  });
+
+  it('validates the merged configuration on reconfigure', async () => {
+    logm8.init({ appenders: [], validation: 'strict' });
+
+    await expect(
+      logm8.reconfigure({ loggers: { app: 'loud' } } as unknown as LoggingConfig),
+    ).rejects.toThrow(/\$\.loggers\.app: must be one of/);
+  });
+});
+
+describe('LogM8 getConfigSchema', () => {
+  it('describes built-in and registered plugin configs', async () => {
+    const logm8 = new LogM8();
+    logm8.registerPluginFactory(new SlackAppenderFactory());
+
+    const schema = logm8.getConfigSchema() as {
+      properties: Record<string, { items?: unknown }>;
+      definitions: Record<string, { anyOf: ConfigSchema[] }>;
+    };
+    const [names, ...configs] = schema.definitions.appender.anyOf;
+
+    expect(schema.properties.appenders.items).toEqual({ $ref: '#/definitions/appender' });
+    expect(names.enum).toEqual(['console', 'file', 'rolling-file', 'slack']);
+    const slack = configs.find((c) => c.properties?.name.enum?.[0] === 'slack');
+    expect(slack?.required).toEqual(['name', 'webhookUrl']);
+    expect(slack?.additionalProperties).toBe(false);
+    expect(slack?.properties?.formatter).toEqual({ $ref: '#/definitions/formatter' });
+    expect(schema.definitions.formatter.anyOf[0].enum).toEqual([
+      'default-formatter',
+      'json-formatter',
+    ]);
+
+    await logm8.dispose();
+  });
+
+  it('accepts level names in any case, like the validator', async () => {
+    const logm8 = new LogM8();
+    logm8.init({ customLevels: [{ name: 'notice', below: 'warn' }], appenders: [] });
+
+    const schema = logm8.getConfigSchema() as { properties: Record<string, ConfigSchema> };
+    const [names, matcher] = schema.properties.level.anyOf!;
+    const pattern = new RegExp((matcher as { pattern: string }).pattern);
+
+    expect(names.enum).toEqual([
+      'off',
+      'fatal',
+      'error',
+      'warn',
+      'info',
+      'debug',
+      'track',
+      'trace',
+      'notice',
+    ]);
+    expect(['WARN', ' Info ', 'trace', 'Notice'].map((l) => pattern.test(l))).toEqual([
+      true,
+      true,
+      true,
+      true,
+    ]);
+    expect(pattern.test('verbose')).toBe(false);
+
+    await logm8.dispose();
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Appender } from '../../src/Appender.ts';
+import type { LogEvent } from '../../src/LogEvent.ts';
+import { LogLevel } from '../../src/LogLevel.ts';
+import { LogM8 } from '../../src/LogM8.ts';
+import type { PluginFactory } from '../../src/PluginFactory.ts';
+import { PluginKind } from '../../src/PluginKind.ts';
+
+class CollectingAppender implements Appender {
+  name = 'collect';
+  version = '1.0.0';
+  kind = PluginKind.appender;
+  supportedLevels = new Set(Object.values(LogLevel));
+  enabled = true;
+  events: LogEvent[] = [];
+  init(): void {}
+  dispose(): void {}
+  write(event: LogEvent): void {
+    this.events.push(event);
+  }
+  flush(): void {}
+  enableFilter(): void {}
+  disableFilter(): void {}
+}
+
+class CollectingAppenderFactory implements PluginFactory {
+  name = 'collect';
+  version = '1.0.0';
+  kind = PluginKind.appender;
+  appender = new CollectingAppender();
+  create(): Appender {
+    return this.appender;
+  }
+}
+
+describe('LogM8 captureConsole', () => {
+  let logm8: LogM8;
+
+  beforeEach(() => {
+    logm8 = new LogM8();
+  });
+  afterEach(async () => {
+    await logm8.dispose();
+    vi.restoreAllMocks();
+  });
+
+  it('routes console calls to the console logger with mapped levels', () => {
+    const factory = new CollectingAppenderFactory();
+    logm8.registerPluginFactory(factory);
+    logm8.init({
+      level: LogLevel.trace,
+      appenders: ['collect'],
+      captureConsole: { levels: { log: LogLevel.debug } },
+    });
+
+    console.log('from log', { a: 1 });
+    console.warn('from warn');
+
+    const [log, warn] = factory.appender.events;
+    expect(log.logger).toBe('console');
+    expect(log.level).toBe(LogLevel.debug);
+    expect(log.message).toBe('from log');
+    expect(log.data).toEqual([{ a: 1 }]);
+    expect(warn.level).toBe(LogLevel.warn);
+  });
+
+  it('keeps the console appender on the original console methods', () => {
+    const original = vi.spyOn(console, 'info').mockImplementation(() => {});
+    logm8.init({ captureConsole: true });
+
+    console.info('hello');
+
+    expect(original).toHaveBeenCalledTimes(1);
+    expect(original.mock.calls[0]).toContain('hello');
+  });
+
+  it('restores the original console on dispose', async () => {
+    const original = console.error;
+    logm8.init({ captureConsole: { levels: { log: LogLevel.off } }, appenders: [] });
+    expect(console.error).not.toBe(original);
+    const log = console.log;
+
+    await logm8.dispose();
+    expect(console.error).toBe(original);
+    expect(console.log).toBe(log);
+  });
+});
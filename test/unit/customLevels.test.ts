@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { CustomLevelConfig } from '../../src/CustomLevelConfig.ts';
+import { LogM8 } from '../../src/LogM8.ts';
+
+const NOTICE: CustomLevelConfig = {
+  name: 'notice',
+  below: 'warn',
+  console: 'info',
+  color: '\x1b[36m',
+};
+const AUDIT: CustomLevelConfig = { name: 'audit', above: 'fatal' };
+
+describe('LogM8 custom levels', () => {
+  let logm8: LogM8;
+
+  beforeEach(() => {
+    logm8 = new LogM8();
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+  afterEach(async () => {
+    await logm8.dispose();
+    vi.restoreAllMocks();
+  });
+
+  it('adds typed methods and flags ordered by severity', () => {
+    logm8.init({ level: 'notice', customLevels: [NOTICE, AUDIT] });
+    const logger = logm8.getLogger<'notice' | 'audit'>('app');
+
+    expect(logger.level).toBe('notice');
+    expect([logger.isAudit, logger.isWarn, logger.isNotice, logger.isInfo]).toEqual([
+      true,
+      true,
+      true,
+      false,
+    ]);
+
+    logger.notice('cache warmed');
+    logger.info('not emitted');
+    logger.audit('user deleted');
+
+    expect(console.info).toHaveBeenCalledTimes(1);
+    expect(console.log).toHaveBeenCalledTimes(1);
+    expect(logm8.getStats().levels).toMatchObject({
+      notice: { created: 1, written: 1 },
+      audit: { created: 1, written: 1 },
+    });
+
+    logger.setLevel('audit');
+    expect([logger.isAudit, logger.isFatal]).toEqual([true, false]);
+  });
+
+  it('colors custom levels in the default formatter', () => {
+    logm8.init({
+      customLevels: [NOTICE],
+      appenders: [
+        {
+          name: 'console',
+          formatter: { name: 'default-formatter', format: '{LEVEL}', color: true },
+        },
+      ],
+    });
+
+    logm8.getLogger<'notice'>('app').child({ requestId: 'r1' }).notice('hello');
+
+    expect(console.info).toHaveBeenCalledWith('\x1b[36mNOTICE\x1b[0m');
+  });
+
+  it('rejects invalid level declarations', () => {
+    const init = (level: CustomLevelConfig) => () => logm8.init({ customLevels: [level] });
+
+    expect(init({ name: 'Notice', below: 'warn' })).toThrow(/lowercase letters and digits/);
+    expect(init({ name: 'warn', below: 'info' })).toThrow(/already defined or reserved/);
+    expect(init({ name: 'child', below: 'info' })).toThrow(/already defined or reserved/);
+    expect(init({ name: 'notice' })).toThrow(/either 'above' or 'below'/);
+    expect(init({ name: 'notice', above: 'off' })).toThrow(/relative to 'off'/);
+  });
+
+  it('validates level names against the declared levels', () => {
+    expect(logm8.validateConfig({ level: 'notice', customLevels: [NOTICE] })).toEqual([]);
+    expect(logm8.validateConfig({ level: 'notice' })).toEqual([
+      { path: '$.level', message: expect.stringContaining('got "notice"') },
+    ]);
+  });
+
+  it('removes methods of levels dropped by reconfigure', async () => {
+    logm8.init({ customLevels: [NOTICE] });
+    const logger = logm8.getLogger<'notice'>('app');
+    const child = logger.child({ requestId: 'r1' });
+    logger.notice('one');
+
+    await logm8.reconfigure({ customLevels: [] });
+    child.notice('ignored');
+
+    expect('notice' in logger).toBe(false);
+    expect('isNotice' in logger).toBe(false);
+    expect(logm8.getStats().levels.notice).toMatchObject({ created: 1 });
+    expect(console.info).toHaveBeenCalledTimes(1);
+  });
+});
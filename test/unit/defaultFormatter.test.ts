@@ -45,6 +45,24 @@ describe('DefaultFormatter', () => {
     expect(obj.level).toBe('info');
     expect(obj.logger).toBe('app.core');
     expect(obj.message).toBe('hello');
+    expect('template' in obj).toBe(false);
+  });
+
+  it('json mode emits the template of interpolated messages', () => {
+    const f = new JsonFormatterFactory().create({ name: 'json' });
+    const ev = makeEvent({ message: 'user 42', template: 'user %s', args: [42], data: [] });
+    const obj = JSON.parse(f.format(ev)[0] as string) as Record<string, unknown>;
+    expect(obj.message).toBe('user 42');
+    expect(obj.template).toBe('user %s');
+  });
+
+  it('resolves caller location tokens', () => {
+    const f = new DefaultFormatterFactory().create({
+      name: 'default',
+      format: '{location.file}:{location.line} {message}',
+    });
+    const ev = makeEvent({ location: { file: 'src/app.ts', line: 12, column: 3 } });
+    expect(f.format(ev)[0]).toBe('src/app.ts:12 hello');
   });
 
   it('resolves tokens and formats timestamp pattern', () => {
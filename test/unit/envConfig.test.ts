@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Appender } from '../../src/Appender.ts';
+import type { LogEvent } from '../../src/LogEvent.ts';
+import { LogLevel } from '../../src/LogLevel.ts';
+import { LogM8 } from '../../src/LogM8.ts';
+import type { PluginFactory } from '../../src/PluginFactory.ts';
+import { PluginKind } from '../../src/PluginKind.ts';
+
+class CollectingAppender implements Appender {
+  name = 'collect';
+  version = '1.0.0';
+  kind = PluginKind.appender;
+  supportedLevels = new Set(Object.values(LogLevel));
+  enabled = true;
+  writes: string[] = [];
+  init(): void {}
+  dispose(): void {}
+  write(event: LogEvent): void {
+    this.writes.push(`${event.logger}:${event.level}:${event.message}`);
+  }
+  flush(): void {}
+  enableFilter(): void {}
+  disableFilter(): void {}
+}
+
+class CollectingAppenderFactory implements PluginFactory {
+  name = 'collect';
+  version = '1.0.0';
+  kind = PluginKind.appender;
+  appender = new CollectingAppender();
+  create(): Appender {
+    return this.appender;
+  }
+}
+
+describe('LogM8 env overrides', () => {
+  let logm8: LogM8;
+  let factory: CollectingAppenderFactory;
+
+  beforeEach(() => {
+    logm8 = new LogM8();
+    factory = new CollectingAppenderFactory();
+    logm8.registerPluginFactory(factory);
+  });
+  afterEach(async () => {
+    await logm8.dispose();
+    vi.unstubAllEnvs();
+  });
+
+  const level = (name: string) => logm8.getLogger(name).level;
+
+  it('ignores environment variables unless enabled', () => {
+    vi.stubEnv('LOGM8_LEVEL', 'trace');
+    logm8.init({ level: 'warn', appenders: [] });
+    expect(level('app')).toBe('warn');
+  });
+
+  it('reads LOGM8_LEVEL and LOGM8_LOGGERS from process.env', () => {
+    vi.stubEnv('LOGM8_LEVEL', 'debug');
+    vi.stubEnv('LOGM8_LOGGERS', 'app.db=trace, app.http=WARN');
+    logm8.init({ level: 'info', appenders: [], env: true });
+
+    expect(level('other')).toBe('debug');
+    expect(level('app.db.pool')).toBe('trace');
+    expect(level('app.http')).toBe('warn');
+  });
+
+  it('applies sources in order: config < DEBUG < LOGM8_LOGGERS < LOGM8_LEVEL', () => {
+    logm8.init({
+      level: 'warn',
+      appenders: [],
+      loggers: {
+        'app.db': 'trace',
+        'app.cache': 'error',
+        'app.http': { level: 'error', additive: true },
+        'app.auth': 'info',
+      },
+      env: {
+        prefix: 'APP_LOG_',
+        source: {
+          DEBUG: 'app:db,app:cache,app.http.*,*,-app.auth',
+          APP_LOG_LOGGERS: 'app.cache=fatal',
+          APP_LOG_LEVEL: 'error',
+        },
+      },
+    });
+
+    // DEBUG raises to at least debug, keeping more verbose configured levels
+    expect(level('app.db')).toBe('trace');
+    expect(level('app.http')).toBe('debug');
+    // Excluded namespaces stay at the configured global level
+    expect(level('app.auth')).toBe('warn');
+    // LOGM8_LOGGERS beats DEBUG, LOGM8_LEVEL beats DEBUG's '*'
+    expect(level('app.cache')).toBe('fatal');
+    expect(level('other')).toBe('error');
+  });
+
+  it('can ignore the DEBUG variable and re-applies overrides on reconfigure', async () => {
+    const source = { DEBUG: '*', LOGM8_LOGGERS: 'app=trace' };
+    logm8.init({ level: 'info', appenders: [], env: { debug: false, source } });
+    expect(level('other')).toBe('info');
+    expect(level('app')).toBe('trace');
+
+    await logm8.reconfigure({ loggers: { app: 'error', lib: 'warn' } });
+    expect(level('app')).toBe('trace');
+    expect(level('lib')).toBe('warn');
+  });
+
+  it('emits events of loggers raised above the global level', () => {
+    const source = { LOGM8_LEVEL: 'warn', LOGM8_LOGGERS: 'app.db=trace', DEBUG: 'app:http' };
+    logm8.init({ appenders: ['collect'], env: { source } });
+
+    logm8.getLogger('app.db').trace('query');
+    logm8.getLogger('app.http').debug('request');
+    logm8.getLogger('app.http').trace('too verbose');
+    logm8.getLogger('other').info('below warn');
+
+    expect(factory.appender.writes).toEqual(['app.db:trace:query', 'app.http:debug:request']);
+  });
+
+  it('reports and skips invalid levels', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const source = { LOGM8_LEVEL: 'verbose', LOGM8_LOGGERS: 'app.db=debgu,app.http=debug,app.web' };
+    logm8.init({ level: 'warn', appenders: [], loggers: { 'app.db': 'error' }, env: { source } });
+
+    expect(level('other')).toBe('warn');
+    expect(level('app.db')).toBe('error');
+    expect(level('app.http')).toBe('debug');
+    expect(warn.mock.calls.map(([message]) => message)).toEqual([
+      "LogM8: Ignoring invalid LOGM8_LOGGERS entry 'app.db=debgu': expected a level name",
+      "LogM8: Ignoring invalid LOGM8_LOGGERS entry 'app.web': expected a level name",
+      "LogM8: Ignoring invalid LOGM8_LEVEL entry 'verbose': expected a level name",
+    ]);
+  });
+});
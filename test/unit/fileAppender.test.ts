@@ -35,8 +35,7 @@ describe('FileAppender', () => {
     a.init({ name: 'file', filename: tmp, append: false }, formatter, []);
     const ev = makeEvent();
     a.write(ev);
-    a.dispose();
-    await new Promise((res) => setTimeout(res, 10));
+    await a.dispose();
     const content = readFileSync(tmp, 'utf8');
     expect(content.endsWith('\n')).toBe(true);
     expect(content).toContain('hello');
@@ -49,18 +48,12 @@ describe('FileAppender', () => {
     const a1 = new FileAppender();
     a1.init({ name: 'file', filename: tmp, append: false }, formatter, []);
     a1.write(makeEvent());
-    a1.dispose();
-
-    // Wait for the first stream to close completely
-    await new Promise((res) => setTimeout(res, 50));
+    await a1.dispose();
 
     const a2 = new FileAppender();
     a2.init({ name: 'file', filename: tmp, append: true }, formatter, []);
     a2.write(makeEvent());
-    a2.dispose();
-
-    // Wait for the second stream to close completely
-    await new Promise((res) => setTimeout(res, 50));
+    await a2.dispose();
 
     const text = readFileSync(tmp, 'utf8');
     const occurrences = (text.match(/hello/g) || []).length;
@@ -73,8 +66,7 @@ describe('FileAppender', () => {
     a.init({ name: 'file', filename: tmp, append: false }, formatter, []);
     const ev = makeEvent();
     a.write(ev);
-    a.dispose();
-    await new Promise((res) => setTimeout(res, 10));
+    await a.dispose();
 
     const content = readFileSync(tmp, 'utf8');
     expect(content.endsWith('\n')).toBe(true);
@@ -90,4 +82,16 @@ describe('FileAppender', () => {
     expect(data[0]).toBe(1);
     expect((data[1] as { a: number }).a).toBe(2);
   });
+
+  it('flush resolves once pending lines are written to the file', async () => {
+    const formatter = new DefaultFormatterFactory().create({ name: 'default' });
+    const a = new FileAppender();
+    a.init({ name: 'file', filename: tmp, append: false }, formatter, []);
+    for (let i = 0; i < 100; i++) a.write(makeEvent());
+    await a.flush();
+
+    const occurrences = (readFileSync(tmp, 'utf8').match(/hello/g) || []).length;
+    expect(occurrences).toBe(100);
+    await a.dispose();
+  });
 });
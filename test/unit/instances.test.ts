@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Appender } from '../../src/Appender.ts';
+import type { LogEvent } from '../../src/LogEvent.ts';
+import { LogLevel } from '../../src/LogLevel.ts';
+import { LogM8 } from '../../src/LogM8.ts';
+import type { PluginFactory } from '../../src/PluginFactory.ts';
+import { PluginKind } from '../../src/PluginKind.ts';
+
+class CollectingAppender implements Appender {
+  name = 'collect';
+  version = '1.0.0';
+  kind = PluginKind.appender;
+  supportedLevels = new Set(Object.values(LogLevel));
+  enabled = true;
+  events: LogEvent[] = [];
+  init(): void {}
+  dispose(): void {}
+  write(event: LogEvent): void {
+    this.events.push(event);
+  }
+  flush(): void {}
+  enableFilter(): void {}
+  disableFilter(): void {}
+}
+
+class CollectingAppenderFactory implements PluginFactory {
+  name = 'collect';
+  version = '1.0.0';
+  kind = PluginKind.appender;
+  appender = new CollectingAppender();
+  create(): Appender {
+    return this.appender;
+  }
+}
+
+describe('LogM8 instances', () => {
+  let host: LogM8;
+  let library: LogM8;
+
+  beforeEach(() => {
+    host = new LogM8();
+    library = new LogM8();
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+  });
+  afterEach(async () => {
+    await Promise.all([host.dispose(), library.dispose()]);
+    vi.restoreAllMocks();
+  });
+
+  it('keep plugin factories, loggers and levels separate', () => {
+    const factory = new CollectingAppenderFactory();
+    library.registerPluginFactory(factory);
+    library.init({ level: LogLevel.debug, appenders: ['collect'] });
+
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(() => host.init({ appenders: ['collect'] })).toThrow(/not found/);
+    host.init({ level: LogLevel.warn });
+
+    library.getLogger('lib').debug('from library');
+    host.getLogger('lib').info('from host');
+
+    expect(factory.appender.events.map((e) => e.message)).toEqual(['from library']);
+    expect(host.getLogger('lib')).not.toBe(library.getLogger('lib'));
+    expect(host.getLogger('lib').level).toBe(LogLevel.warn);
+  });
+
+  it('can register the built-in factories again after dispose', async () => {
+    library.init();
+    await library.dispose();
+    expect(() => library.init()).toThrow(/'console' not found/);
+
+    library.registerBuiltInPluginFactories();
+    library.registerBuiltInPluginFactories();
+    library.init({ appenders: [{ name: 'console', formatter: 'json-formatter' }] });
+    library.getLogger('lib').info('back');
+
+    expect(console.info).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps custom factories registered under a built-in name', async () => {
+    await library.dispose();
+    const factory = new CollectingAppenderFactory();
+    factory.name = 'console';
+    library.registerPluginFactory(factory);
+    library.registerBuiltInPluginFactories();
+
+    library.init();
+    library.getLogger('lib').info('custom');
+
+    expect(factory.appender.events).toHaveLength(1);
+    expect(console.info).not.toHaveBeenCalled();
+  });
+});
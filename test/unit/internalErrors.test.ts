@@ -0,0 +1,121 @@
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, type MockInstance, vi } from 'vitest';
+
+import type { Appender } from '../../src/Appender.ts';
+import type { InternalError } from '../../src/InternalError.ts';
+import type { LogEvent } from '../../src/LogEvent.ts';
+import { LogLevel } from '../../src/LogLevel.ts';
+import { LogM8 } from '../../src/LogM8.ts';
+import type { PluginFactory } from '../../src/PluginFactory.ts';
+import { PluginKind } from '../../src/PluginKind.ts';
+
+class CollectingAppender implements Appender {
+  name = 'collect';
+  version = '1.0.0';
+  kind = PluginKind.appender;
+  supportedLevels = new Set(Object.values(LogLevel));
+  enabled = true;
+  events: LogEvent[] = [];
+  init(): void {}
+  dispose(): void {}
+  write(event: LogEvent): void {
+    if (event.message === 'boom') throw new Error('write failed');
+    this.events.push(event);
+  }
+  flush(): void {}
+  enableFilter(): void {}
+  disableFilter(): void {}
+}
+
+class CollectingAppenderFactory implements PluginFactory {
+  name = 'collect';
+  version = '1.0.0';
+  kind = PluginKind.appender;
+  appender = new CollectingAppender();
+  create(): Appender {
+    return this.appender;
+  }
+}
+
+describe('LogM8 internal errors', () => {
+  let logm8: LogM8;
+  let factory: CollectingAppenderFactory;
+  let error: MockInstance<Parameters<typeof console.error>, void>;
+
+  beforeEach(() => {
+    logm8 = new LogM8();
+    factory = new CollectingAppenderFactory();
+    logm8.registerPluginFactory(factory);
+    error = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(async () => {
+    await logm8.dispose();
+    vi.restoreAllMocks();
+  });
+
+  it('delivers appender failures to handlers and the console', () => {
+    const received: InternalError[] = [];
+    const off = logm8.onInternalError((e) => received.push(e));
+    logm8.init({ appenders: ['collect'] });
+
+    logm8.getLogger('app').info('boom');
+
+    expect(received).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        source: 'collect',
+        kind: 'appender',
+        phase: 'write',
+        error: new Error('write failed'),
+      }),
+    ]);
+    expect(error).toHaveBeenCalledWith(
+      "LogM8: Failed to append log with 'collect':",
+      new Error('write failed'),
+    );
+
+    off();
+    logm8.getLogger('app').info('boom');
+    expect(received).toHaveLength(1);
+  });
+
+  it('prints nothing in quiet mode and tags failures in verbose mode', () => {
+    logm8.init({ appenders: ['collect'], diagnostics: { mode: 'quiet' } });
+    logm8.getLogger('app').info('boom');
+    expect(error).not.toHaveBeenCalled();
+
+    logm8.init({ appenders: ['collect'], diagnostics: { mode: 'verbose' } });
+    logm8.getLogger('app').info('boom');
+    expect(error.mock.calls[0][0]).toBe(
+      "LogM8 [appender collect, write]: Failed to append log with 'collect':",
+    );
+  });
+
+  it('logs failures on the logm8.internal logger without recursing', () => {
+    logm8.init({
+      level: LogLevel.debug,
+      appenders: ['collect'],
+      diagnostics: { mode: 'quiet', logger: true },
+    });
+
+    logm8.getLogger('app').info('boom');
+
+    const [event] = factory.appender.events;
+    expect(event.logger).toBe('logm8.internal');
+    expect(event.level).toBe(LogLevel.error);
+    expect(event.message).toBe("Failed to append log with 'collect'");
+    expect(event.context).toEqual({ source: 'collect', kind: 'appender', phase: 'write' });
+    expect(event.data).toEqual([new Error('write failed')]);
+  });
+
+  it('reports file stream errors instead of crashing', async () => {
+    const received: InternalError[] = [];
+    logm8.onInternalError((e) => received.push(e));
+    const filename = join('/nonexistent-logm8-dir', 'app.log');
+    logm8.init({ appenders: [{ name: 'file', filename }] });
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(received[0]).toMatchObject({ source: 'file', kind: 'appender', phase: 'write' });
+    expect(received[0].message).toContain(filename);
+  });
+});
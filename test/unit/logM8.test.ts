@@ -2,7 +2,9 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import type { Appender } from '../../src/Appender.ts';
 import type { AppenderConfig } from '../../src/AppenderConfig.ts';
+import { SyncContextStorage } from '../../src/ContextStorage.ts';
 import type { Filter } from '../../src/Filter.ts';
+import type { LogEvent } from '../../src/LogEvent.ts';
 import { LogLevel } from '../../src/LogLevel.ts';
 import { LogM8 } from '../../src/LogM8.ts';
 import type { PluginFactory } from '../../src/PluginFactory.ts';
@@ -37,6 +39,7 @@ class SpyAppender implements Appender {
   enabled = true;
   priority?: number;
   writes: string[] = [];
+  events: LogEvent[] = [];
   private filters: Filter[] = [];
   init(config: AppenderConfig, _formatter?: unknown, filters?: Filter[]): void {
     this.name = config.name;
@@ -44,15 +47,21 @@ class SpyAppender implements Appender {
     this.enabled = config.enabled !== false;
     this.filters = filters ?? [];
   }
-  dispose(): void {}
+  lifecycle: string[] = [];
+  dispose(): void {
+    this.lifecycle.push('dispose');
+  }
   write(e: { logger: string; level: string; message: unknown }): void {
     for (const f of this.filters) {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       if (!f.filter(e as any)) return;
     }
+    this.events.push(e as LogEvent);
     this.writes.push(`${e.logger}:${e.level}:${e.message}`);
   }
-  flush(): void {}
+  flush(): void {
+    this.lifecycle.push('flush');
+  }
 
   enableFilter(name: string): void {
     const filter = this._getFilter(name);
@@ -91,8 +100,8 @@ describe('LogM8 core', () => {
   beforeEach(() => {
     logm8 = new LogM8();
   });
-  afterEach(() => {
-    logm8.dispose();
+  afterEach(async () => {
+    await logm8.dispose();
     vi.restoreAllMocks();
   });
 
@@ -158,8 +167,64 @@ describe('LogM8 core', () => {
     logger.info('one');
     logger.info('two');
     logm8.init({ appenders: [{ name: 'spy' }] });
-    // emit trigger after init should flush buffered two first, then this
+    // init flushes the buffered events before any new ones
+    expect(spyFactory.instances[0].writes).toEqual(['pre:info:one', 'pre:info:two']);
     logger.info('three');
+    expect(spyFactory.instances[0].writes).toHaveLength(3);
+  });
+
+  describe('pre-init buffer', () => {
+    const logBeforeInit = (count: number) => {
+      const logger = logm8.getLogger('pre');
+      for (let i = 1; i <= count; i++) logger.info(`e${i}`);
+      const spyFactory = new SpyAppenderFactory();
+      logm8.registerPluginFactory(spyFactory);
+      logm8.init({ appenders: [{ name: 'spy' }] });
+      return spyFactory.instances[0].writes;
+    };
+    const summary =
+      'logm8:warn:Discarded 3 event(s) logged before init(): the buffer holds 3 (overflow: %s)';
+
+    it('drops the oldest events by default and reports the discarded count', () => {
+      logm8 = new LogM8({ buffer: { size: 3 } });
+      expect(logBeforeInit(6)).toEqual([
+        'pre:info:e4',
+        'pre:info:e5',
+        'pre:info:e6',
+        summary.replace('%s', 'drop-oldest'),
+      ]);
+    });
+
+    it('drops the newest event when the buffer is full', () => {
+      logm8.configureBuffer({ size: 3, overflow: 'drop-newest' });
+      expect(logBeforeInit(6)).toEqual([
+        'pre:info:e1',
+        'pre:info:e2',
+        'pre:info:e3',
+        summary.replace('%s', 'drop-newest'),
+      ]);
+    });
+
+    it('drops the incoming event rather than a buffered one with drop-newest', () => {
+      logm8.configureBuffer({ size: 2, overflow: 'drop-newest' });
+      expect(logBeforeInit(3)).toEqual([
+        'pre:info:e1',
+        'pre:info:e2',
+        'logm8:warn:Discarded 1 event(s) logged before init(): the buffer holds 2 (overflow: drop-newest)',
+      ]);
+      expect(logm8.getStats().dropped).toBe(1);
+    });
+
+    it('keeps the first events', () => {
+      logm8.configureBuffer({ size: 3, overflow: 'keep-first' });
+      expect(logBeforeInit(6)).toEqual([
+        'pre:info:e1',
+        'pre:info:e2',
+        'pre:info:e3',
+        summary.replace('%s', 'keep-first'),
+      ]);
+      expect(logm8.getStats().dropped).toBe(3);
+    });
   });
 
   it('enable/disable appender toggles writes', () => {
@@ -259,4 +324,375 @@ describe('LogM8 core', () => {
     expect(spy.writes).not.toContain('beta:debug:d-debug');
     expect(spy.writes).not.toContain('beta:trace:d-trace');
   });
+
+  it('child loggers inherit the level of the nearest configured ancestor', () => {
+    logm8.init({
+      level: LogLevel.trace,
+      loggers: { app: LogLevel.warn, 'app.database': LogLevel.debug },
+    });
+
+    expect(logm8.getLogger('app.database.queries').level).toBe(LogLevel.debug);
+    expect(logm8.getLogger('app.http').level).toBe(LogLevel.warn);
+    expect(logm8.getLogger('other').level).toBe(LogLevel.trace);
+  });
+
+  it('emits events of loggers configured more verbose than the global level', () => {
+    const spyFactory = new SpyAppenderFactory();
+    logm8.registerPluginFactory(spyFactory);
+    logm8.init({
+      level: LogLevel.info,
+      appenders: [{ name: 'spy' }],
+      loggers: { 'app.database': LogLevel.debug },
+    });
+
+    logm8.getLogger('app.database.queries').debug('query');
+    logm8.getLogger('app.database').trace('too verbose');
+    logm8.getLogger('other').debug('not configured');
+
+    expect(spyFactory.instances[0].writes).toEqual(['app.database.queries:debug:query']);
+  });
+
+  it('setLevel on a parent reaches children without an explicit level', () => {
+    logm8.init();
+    const parent = logm8.getLogger('app');
+    const child = logm8.getLogger('app.db');
+    const grandchild = logm8.getLogger('app.db.pool');
+    const override = logm8.getLogger('app.http');
+    override.setLevel(LogLevel.error);
+
+    parent.setLevel(LogLevel.debug);
+    expect(child.level).toBe(LogLevel.debug);
+    expect(child.isDebug).toBe(true);
+    expect(grandchild.level).toBe(LogLevel.debug);
+    expect(override.level).toBe(LogLevel.error);
+
+    child.setLevel(LogLevel.warn);
+    parent.setLevel(LogLevel.trace);
+    expect(child.level).toBe(LogLevel.warn);
+    expect(grandchild.level).toBe(LogLevel.warn);
+  });
+
+  it('evaluates lazy messages only for events that pass level and global filters', () => {
+    const spyFactory = new SpyAppenderFactory();
+    logm8.registerPluginFactory(spyFactory);
+    logm8.registerPluginFactory({
+      name: 'deny',
+      version: '1.0.0',
+      kind: PluginKind.filter,
+      create: () => new DenyAllFilter(),
+    });
+    logm8.init({ appenders: [{ name: 'spy' }] });
+    const logger = logm8.getLogger('lazy');
+    const factory = vi.fn(() => ['computed', 42]);
+
+    logger.debug(factory);
+    expect(factory).not.toHaveBeenCalled();
+
+    logger.info(factory, 'extra');
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(spyFactory.instances[0].writes).toEqual(['lazy:info:computed']);
+
+    logm8.init({ appenders: [{ name: 'spy' }], filters: ['deny'] });
+    logm8.getLogger('lazy').info(factory);
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('resolves lazy messages into message and data once', () => {
+    const spyFactory = new SpyAppenderFactory();
+    logm8.registerPluginFactory(spyFactory);
+    logm8.init({ appenders: [{ name: 'spy' }] });
+    const logger = logm8.getLogger('lazy');
+    const events = spyFactory.instances[0].events;
+
+    logger.info(() => ['message', { a: 1 }], 'extra');
+    logger.info(() => 'only message');
+
+    expect(events[0].message).toBe('message');
+    expect(events[0].data).toEqual([{ a: 1 }, 'extra']);
+    expect(events[0].data).toBe(events[0].data);
+    expect(events[1].message).toBe('only message');
+    expect(events[1].data).toEqual([]);
+  });
+
+  it('interpolates message placeholders only when enabled', () => {
+    const spyFactory = new SpyAppenderFactory();
+    logm8.registerPluginFactory(spyFactory);
+    logm8.init({ appenders: [{ name: 'spy' }] });
+    logm8.getLogger('tpl').info('user %s', 42);
+    expect(spyFactory.instances[0].events[0].message).toBe('user %s');
+
+    logm8.init({ appenders: [{ name: 'spy' }], interpolate: true });
+    const logger = logm8.getLogger('tpl');
+    logger.info('user %s logged in from %s', 42, '10.0.0.1', { extra: true });
+    logger.info('user {userId} logged in', { userId: 7 });
+    logger.info('no placeholders', 1);
+
+    const [printf, named, plain] = spyFactory.instances[1].events;
+    expect(printf.message).toBe('user 42 logged in from 10.0.0.1');
+    expect(printf.template).toBe('user %s logged in from %s');
+    expect(printf.args).toEqual([42, '10.0.0.1', { extra: true }]);
+    expect(printf.data).toEqual([{ extra: true }]);
+    expect(named.message).toBe('user 7 logged in');
+    expect(named.template).toBe('user {userId} logged in');
+    expect(named.data).toEqual([{ userId: 7 }]);
+    expect(plain.template).toBeUndefined();
+  });
+
+  it('keeps lazy messages lazy when interpolation is enabled', () => {
+    const spyFactory = new SpyAppenderFactory();
+    logm8.registerPluginFactory(spyFactory);
+    logm8.init({
+      appenders: [{ name: 'spy' }],
+      filters: [{ name: 'match-filter', deny: { logger: 'lazy.denied' } }],
+      interpolate: true,
+    });
+    const factory = vi.fn(() => ['user %s', 42]);
+
+    logm8.getLogger('lazy.denied').info(factory);
+    expect(factory).not.toHaveBeenCalled();
+
+    logm8.getLogger('lazy.allowed').info(factory, 'extra');
+    const [event] = spyFactory.instances[0].events;
+    expect(event.message).toBe('user 42');
+    expect(event.template).toBe('user %s');
+    expect(event.data).toEqual(['extra']);
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it('creates uncached child loggers with merged frozen context and shared level', () => {
+    const spyFactory = new SpyAppenderFactory();
+    logm8.registerPluginFactory(spyFactory);
+    logm8.init({ appenders: [{ name: 'spy' }] });
+    const logger = logm8.getLogger('app.req');
+    logger.setContext({ service: 'api' });
+
+    const a = logger.child({ requestId: 'a' });
+    const b = logger.child({ requestId: 'b' }).child({ userId: 'u1' });
+    a.info('from a');
+    b.info('from b');
+
+    const [eventA, eventB] = spyFactory.instances[0].events;
+    expect(a.name).toBe('app.req');
+    expect(eventA.context).toEqual({ service: 'api', requestId: 'a' });
+    expect(eventB.context).toEqual({ service: 'api', requestId: 'b', userId: 'u1' });
+    expect(Object.isFrozen(a.context)).toBe(true);
+    expect(logger.context).toEqual({ service: 'api' });
+    expect(logm8.getLogger('app.req')).toBe(logger);
+
+    logger.setLevel('warn');
+    expect(a.level).toBe('warn');
+    a.info('suppressed');
+    expect(spyFactory.instances[0].events).toHaveLength(2);
+  });
+
+  it('keeps child contexts frozen and levels on the named logger', () => {
+    logm8.init();
+    const logger = logm8.getLogger('app.req');
+    const a = logger.child({ requestId: 'a' });
+
+    a.setContext({ requestId: 'b' });
+    expect(a.context).toEqual({ requestId: 'b' });
+    expect(Object.isFrozen(a.context)).toBe(true);
+    expect(() => a.setLevel('debug')).toThrow(/set it on logger 'app.req'/);
+    expect(logger.level).toBe('info');
+    expect(a.getLogger('db')).toBe(logm8.getLogger('app.req.db'));
+  });
+
+  it('merges ambient context from runWithContext across async boundaries', async () => {
+    const spyFactory = new SpyAppenderFactory();
+    logm8.registerPluginFactory(spyFactory);
+    logm8.init({ appenders: [{ name: 'spy' }] });
+    const logger = logm8.getLogger('ambient').child({ userId: 'own' });
+
+    const result = await logm8.runWithContext({ requestId: 'r1', userId: 'ambient' }, async () => {
+      await new Promise((res) => setTimeout(res, 1));
+      logm8.runWithContext({ step: 2 }, () => logger.info('nested'));
+      logger.info('after await');
+      return 'done';
+    });
+    logger.info('outside');
+
+    const [nested, afterAwait, outside] = spyFactory.instances[0].events;
+    expect(result).toBe('done');
+    expect(nested.context).toEqual({ requestId: 'r1', userId: 'own', step: 2 });
+    expect(afterAwait.context).toEqual({ requestId: 'r1', userId: 'own' });
+    expect(outside.context).toEqual({ userId: 'own' });
+  });
+
+  it('SyncContextStorage scopes context to the synchronous callback', () => {
+    const storage = new SyncContextStorage();
+    const seen = storage.run({ requestId: 'r1' }, () => storage.getStore());
+    expect(seen).toEqual({ requestId: 'r1' });
+    expect(storage.getStore()).toBeUndefined();
+  });
+
+  it('captures the caller location only for configured loggers and levels', () => {
+    const spyFactory = new SpyAppenderFactory();
+    logm8.registerPluginFactory(spyFactory);
+    logm8.init({
+      level: 'debug',
+      appenders: [{ name: 'spy' }],
+      captureLocation: { loggers: ['app.db'], levels: ['info'] },
+    });
+
+    function logFromHere() {
+      logm8.getLogger('app.db.queries').info('located');
+    }
+    logFromHere();
+    logm8.getLogger('app.db').debug('wrong level');
+    logm8.getLogger('app.web').info('wrong logger');
+    logm8.getLogger('app.web').info(() => 'lazy');
+
+    const [located, wrongLevel, wrongLogger, lazy] = spyFactory.instances[0].events;
+    expect(located.location?.file).toMatch(/logM8\.test\.ts$/);
+    expect(located.location?.line).toBeGreaterThan(0);
+    expect(located.location?.function).toBe('logFromHere');
+    // Events without a captured location have no location key at all
+    expect(Object.keys(wrongLevel)).not.toContain('location');
+    expect(Object.keys(wrongLogger)).not.toContain('location');
+    expect(Object.keys(lazy)).not.toContain('location');
+  });
+
+  it('applies per-appender level thresholds and runtime changes', () => {
+    const spyFactory = new SpyAppenderFactory();
+    logm8.registerPluginFactory(spyFactory);
+    logm8.init({
+      level: 'trace',
+      appenders: [
+        { name: 'spy', level: 'error' },
+        { name: 'spy', levels: ['warn', 'track'] },
+      ],
+    });
+    const [errors, selected] = spyFactory.instances;
+    const logger = logm8.getLogger('lvl');
+    logger.fatal('f');
+    logger.warn('w');
+    logger.debug('d');
+    logger.track('t');
+
+    expect(errors.writes).toEqual(['lvl:fatal:f']);
+    expect(selected.writes).toEqual(['lvl:warn:w', 'lvl:track:t']);
+
+    logm8.setAppenderLevel('spy', 'debug');
+    logm8.setAppenderLevel('spy', 'bogus');
+    logger.debug('d2');
+    logger.trace('t2');
+    expect(errors.writes).toEqual(['lvl:fatal:f', 'lvl:debug:d2']);
+  });
+
+  it('routes loggers to appenders by AppenderConfig.loggers patterns', () => {
+    const spyFactory = new SpyAppenderFactory();
+    logm8.registerPluginFactory(spyFactory);
+    logm8.init({
+      appenders: [
+        { name: 'spy', loggers: ['!track.*', '!audit.*'] },
+        { name: 'spy', loggers: ['track.*'] },
+        { name: 'spy', loggers: ['audit.*', '!audit.noisy'] },
+      ],
+    });
+    const [main, analytics, audit] = spyFactory.instances;
+
+    logm8.getLogger('app').info('a');
+    logm8.getLogger('track.click').info('t');
+    logm8.getLogger('audit').info('u');
+    logm8.getLogger('audit.noisy').info('n');
+    logm8.getLogger('app').info('a2');
+
+    expect(main.writes).toEqual(['app:info:a', 'app:info:a2']);
+    expect(analytics.writes).toEqual(['track.click:info:t']);
+    expect(audit.writes).toEqual(['audit:info:u']);
+  });
+
+  it('delivers non-additive logger subtrees only to their attached appenders', () => {
+    const rootFactory = new SpyAppenderFactory();
+    const auditFactory = Object.assign(new SpyAppenderFactory(), { name: 'audit-file' });
+    const webFactory = Object.assign(new SpyAppenderFactory(), { name: 'web-file' });
+    [rootFactory, auditFactory, webFactory].forEach((f) => logm8.registerPluginFactory(f));
+    logm8.init({
+      level: 'debug',
+      appenders: ['spy', 'audit-file', 'web-file'],
+      loggers: {
+        audit: { level: 'debug', appenders: ['audit-file'], additive: false },
+        'audit.web': { appenders: ['web-file'] },
+        app: { level: 'warn', appenders: ['web-file'] },
+      },
+    });
+
+    logm8.getLogger('app').warn('root');
+    logm8.getLogger('app').info('below app level');
+    logm8.getLogger('other').info('other');
+    logm8.getLogger('audit.login').debug('audit only');
+    logm8.getLogger('audit.web.request').info('web');
+
+    expect(rootFactory.instances[0].writes).toEqual(['app:warn:root', 'other:info:other']);
+    expect(auditFactory.instances[0].writes).toEqual([
+      'audit.login:debug:audit only',
+      'audit.web.request:info:web',
+    ]);
+    expect(webFactory.instances[0].writes).toEqual(['app:warn:root', 'audit.web.request:info:web']);
+    expect(logm8.getLogger('audit.web').level).toBe('debug');
+  });
+
+  describe('reconfigure', () => {
+    it('updates existing logger objects in place', async () => {
+      logm8.init({ level: 'info', appenders: [] });
+      const child = logm8.getLogger('app.db.queries');
+      expect(child.isDebug).toBe(false);
+
+      await logm8.reconfigure({ level: 'debug', loggers: { 'app.db': 'trace' } });
+      expect(logm8.getLogger('app.db.queries')).toBe(child);
+      expect(child.level).toBe('trace');
+      expect(child.isTrace).toBe(true);
+
+      await logm8.reconfigure({ loggers: {} });
+      expect(child.level).toBe('debug');
+    });
+
+    it('keeps unchanged appenders and flushes removed ones before disposing', async () => {
+      const spyFactory = new SpyAppenderFactory();
+      logm8.registerPluginFactory(spyFactory);
+      logm8.init({
+        appenders: [
+          { name: 'spy', priority: 1 },
+          { name: 'spy', priority: 2 },
+        ],
+      });
+      const [kept, removed] = spyFactory.instances;
+      const logger = logm8.getLogger('swap');
+      logger.info('before');
+
+      const reconfigured = logm8.reconfigure({
+        appenders: [
+          { name: 'spy', priority: 1 },
+          { name: 'spy', priority: 3 },
+        ],
+      });
+      logger.info('during');
+      await reconfigured;
+      logger.info('after');
+
+      const added = spyFactory.instances[2];
+      expect(spyFactory.instances).toHaveLength(3);
+      expect(kept.lifecycle).toEqual([]);
+      expect(kept.writes).toEqual(['swap:info:before', 'swap:info:during', 'swap:info:after']);
+      expect(removed.writes).toEqual(['swap:info:before']);
+      expect(removed.lifecycle).toEqual(['flush', 'dispose']);
+      expect(added.writes).toEqual(['swap:info:during', 'swap:info:after']);
+    });
+
+    it('keeps the current setup when a plugin cannot be created', async () => {
+      const spyFactory = new SpyAppenderFactory();
+      logm8.registerPluginFactory(spyFactory);
+      logm8.init({ appenders: ['spy'] });
+
+      await expect(
+        logm8.reconfigure({ level: 'debug', appenders: ['spy', 'missing'] }),
+      ).rejects.toThrow(/missing/);
+      logm8.getLogger('safe').info('still logging');
+      logm8.getLogger('safe').debug('level unchanged');
+
+      expect(spyFactory.instances[0].writes).toEqual(['safe:info:still logging']);
+      expect(spyFactory.instances[0].lifecycle).toEqual([]);
+    });
+  });
 });
@@ -16,4 +16,63 @@ describe('LogM8Utils', () => {
     const s = LogM8Utils.formatTimestamp(d, 'yyyy-MM-dd hh:mm:ss.SSS z');
     expect(s).toMatch(/^2024-01-02 \d{2}:04:05\.678 /);
   });
+
+  it('timestampPattern matches formatted timestamps', () => {
+    const fmt = 'yyyy-MM-dd.hh h:mm A z (SSS)';
+    const matcher = new RegExp(`^${LogM8Utils.timestampPattern(fmt)}$`);
+    expect(matcher.test(LogM8Utils.formatTimestamp(new Date(), fmt))).toBe(true);
+    expect(matcher.test('2024-01-02x03 03:04 AM +00:00 (678)')).toBe(false);
+  });
+
+  it('interpolateMessage renders printf and named placeholders', () => {
+    expect(LogM8Utils.interpolateMessage('user %s from %s', ['42', '10.0.0.1', 'x'])).toEqual({
+      message: 'user 42 from 10.0.0.1',
+      data: ['x'],
+    });
+    expect(LogM8Utils.interpolateMessage('%d%% of %j', [99.7, { a: 1 }])).toEqual({
+      message: '99% of {"a":1}',
+      data: [],
+    });
+    const user = { user: { id: 7 } };
+    expect(LogM8Utils.interpolateMessage('user {user.id} {missing}', [user])).toEqual({
+      message: 'user 7 {missing}',
+      data: [user],
+    });
+    expect(LogM8Utils.interpolateMessage('plain %s {x}', [])).toBeUndefined();
+  });
+
+  it('parseStackFrame parses V8 and Firefox/Safari frames', () => {
+    expect(LogM8Utils.parseStackFrame('    at async handle (/app/server.ts:42:7)')).toEqual({
+      file: '/app/server.ts',
+      line: 42,
+      column: 7,
+      function: 'handle',
+    });
+    expect(LogM8Utils.parseStackFrame('    at file:///app/main.js:3:1')).toEqual({
+      file: 'file:///app/main.js',
+      line: 3,
+      column: 1,
+    });
+    expect(LogM8Utils.parseStackFrame('render@https://x.test/app.js:10:5')).toEqual({
+      file: 'https://x.test/app.js',
+      line: 10,
+      column: 5,
+      function: 'render',
+    });
+    expect(LogM8Utils.parseStackFrame('Error: boom')).toBeUndefined();
+  });
+
+  it('compileLoggerPatterns matches includes, wildcards and exclusions', () => {
+    const matches = LogM8Utils.compileLoggerPatterns(['app.db.*', '!app.db.noisy', 'audit']);
+    expect(matches('app.db')).toBe(true);
+    expect(matches('app.db.queries')).toBe(true);
+    expect(matches('app.dbx')).toBe(false);
+    expect(matches('app.db.noisy')).toBe(false);
+    expect(matches('audit')).toBe(true);
+    expect(matches('audit.login')).toBe(false);
+
+    const excludeOnly = LogM8Utils.compileLoggerPatterns(['!track*']);
+    expect(excludeOnly('track')).toBe(false);
+    expect(excludeOnly('app')).toBe(true);
+  });
 });
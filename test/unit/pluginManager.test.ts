@@ -49,12 +49,12 @@ describe('PluginManager', () => {
     expect(() => pm.createPlugin(PluginKind.filter, 'missing')).toThrowError(/not found/i);
   });
 
-  it('disposes created plugins', () => {
+  it('disposes created plugins', async () => {
     const pm = new PluginManager();
     pm.registerPluginFactory(new DummyFactory());
     const p = pm.createPlugin(PluginKind.filter, 'dummy') as DummyPlugin;
     expect(p.inited).toBe(true);
-    pm.disposePlugins();
+    await pm.disposePlugins();
     expect(p.disposed).toBe(true);
   });
 });
@@ -0,0 +1,230 @@
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+  type WriteStream,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { gunzipSync } from 'zlib';
+
+import { RollingFileAppender } from '../../src/appenders/RollingFileAppender.ts';
+import { DefaultFormatterFactory } from '../../src/formatters/DefaultFormatter.ts';
+import type { LogEvent } from '../../src/LogEvent.ts';
+import { LogLevel } from '../../src/LogLevel.ts';
+
+function makeEvent(message: string, timestamp = new Date()): LogEvent {
+  return {
+    logger: 'roll',
+    level: LogLevel.info,
+    message,
+    data: [],
+    context: {},
+    timestamp,
+  };
+}
+
+const wait = (ms: number) => new Promise((res) => setTimeout(res, ms));
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'logm8-rolling-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+describe('RollingFileAppender', () => {
+  const formatter = new DefaultFormatterFactory().create({
+    name: 'default-formatter',
+    format: '{message}',
+  });
+
+  it('rolls over to the next index when maxSize would be exceeded', async () => {
+    const a = new RollingFileAppender();
+    a.init({ name: 'rolling-file', filename: join(dir, 'app.%i.log'), maxSize: 10 }, formatter);
+    a.write(makeEvent('12345678'));
+    a.write(makeEvent('abcdefgh'));
+    a.write(makeEvent('ABCDEFGH'));
+    await a.dispose();
+
+    expect(readdirSync(dir).sort()).toEqual(['app.0.log', 'app.1.log', 'app.2.log']);
+    expect(readFileSync(join(dir, 'app.1.log'), 'utf8')).toBe('abcdefgh\n');
+  });
+
+  it('flush waits until rolled files are written and closed', async () => {
+    const openStream = vi.spyOn(
+      RollingFileAppender.prototype as unknown as { _openStream(): WriteStream },
+      '_openStream',
+    );
+    const a = new RollingFileAppender();
+    a.init({ name: 'rolling-file', filename: join(dir, 'app.%i.log'), maxSize: 10 }, formatter);
+    a.write(makeEvent('12345678'));
+    a.write(makeEvent('abcdefgh'));
+    await a.flush();
+
+    const rolled = openStream.mock.results[0].value as WriteStream;
+    expect(rolled.closed).toBe(true);
+    expect(readFileSync(join(dir, 'app.0.log'), 'utf8')).toBe('12345678\n');
+    await a.dispose();
+  });
+
+  it('rolls over on a daily boundary using the %d date pattern', async () => {
+    const a = new RollingFileAppender();
+    a.init(
+      { name: 'rolling-file', filename: join(dir, 'app.%d{yyyy-MM-dd}.%i.log'), interval: 'daily' },
+      formatter,
+    );
+    const now = new Date();
+    const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1, 12);
+    a.write(makeEvent('today', now));
+    a.write(makeEvent('tomorrow', tomorrow));
+    expect(a.currentFile).toBe(join(dir, `app.${formatDay(tomorrow)}.0.log`));
+    await a.dispose();
+
+    expect(readdirSync(dir).sort()).toEqual([
+      `app.${formatDay(now)}.0.log`,
+      `app.${formatDay(tomorrow)}.0.log`,
+    ]);
+  });
+
+  it('keeps writing to a new index when the next period resolves to the same file', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date(2025, 0, 1, 10, 30) });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      const a = new RollingFileAppender();
+      a.init(
+        { name: 'rolling-file', filename: join(dir, 'app.%d.%i.log'), interval: 'hourly' },
+        formatter,
+      );
+      a.write(makeEvent('hour0-A', new Date(2025, 0, 1, 10, 30)));
+      a.write(makeEvent('hour0-B', new Date(2025, 0, 1, 10, 45)));
+      a.write(makeEvent('hour1-A', new Date(2025, 0, 1, 11, 0)));
+      await a.dispose();
+
+      expect(readdirSync(dir).sort()).toEqual(['app.2025-01-01.0.log', 'app.2025-01-01.1.log']);
+      expect(readFileSync(join(dir, 'app.2025-01-01.0.log'), 'utf8')).toBe('hour0-A\nhour0-B\n');
+      expect(readFileSync(join(dir, 'app.2025-01-01.1.log'), 'utf8')).toBe('hour1-A\n');
+      expect(String(error.mock.calls[0])).toContain('does not change every hour');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('keeps at most maxFiles rolled files', async () => {
+    const a = new RollingFileAppender();
+    a.init(
+      { name: 'rolling-file', filename: join(dir, 'app.%i.log'), maxSize: 1, maxFiles: 2 },
+      formatter,
+    );
+    for (let i = 0; i < 5; i++) {
+      a.write(makeEvent(`line ${i}`));
+      await wait(20);
+    }
+    await a.dispose();
+
+    expect(readdirSync(dir).sort()).toEqual(['app.2.log', 'app.3.log', 'app.4.log']);
+  });
+
+  it('append=true resumes the newest file of the current period', async () => {
+    const filename = join(dir, 'app.%i.log');
+    const a1 = new RollingFileAppender();
+    a1.init({ name: 'rolling-file', filename, maxSize: 10 }, formatter);
+    a1.write(makeEvent('12345678'));
+    a1.write(makeEvent('abcdefgh'));
+    await a1.dispose();
+
+    const a2 = new RollingFileAppender();
+    a2.init({ name: 'rolling-file', filename, maxSize: 100, append: true }, formatter);
+    expect(a2.currentFile).toBe(join(dir, 'app.1.log'));
+    a2.write(makeEvent('resumed'));
+    await a2.dispose();
+
+    expect(readFileSync(join(dir, 'app.1.log'), 'utf8')).toBe('abcdefgh\nresumed\n');
+  });
+
+  it('starts after the newest file of the current period on restart without append', async () => {
+    const filename = join(dir, 'app.%i.log');
+    const a1 = new RollingFileAppender();
+    a1.init({ name: 'rolling-file', filename, maxSize: 10 }, formatter);
+    a1.write(makeEvent('12345678'));
+    a1.write(makeEvent('abcdefgh'));
+    await a1.dispose();
+
+    const a2 = new RollingFileAppender();
+    a2.init({ name: 'rolling-file', filename, maxSize: 10 }, formatter);
+    expect(a2.currentFile).toBe(join(dir, 'app.2.log'));
+    a2.write(makeEvent('restart1'));
+    a2.write(makeEvent('restart2'));
+    await a2.dispose();
+
+    expect(readdirSync(dir).sort()).toEqual(['app.0.log', 'app.1.log', 'app.2.log', 'app.3.log']);
+    expect(readFileSync(join(dir, 'app.0.log'), 'utf8')).toBe('12345678\n');
+    expect(readFileSync(join(dir, 'app.1.log'), 'utf8')).toBe('abcdefgh\n');
+  });
+
+  it('gzips rolled files in the background when compress is enabled', async () => {
+    const a = new RollingFileAppender();
+    a.init(
+      { name: 'rolling-file', filename: join(dir, 'app.%i.log'), maxSize: 10, compress: true },
+      formatter,
+    );
+    a.write(makeEvent('12345678'));
+    a.write(makeEvent('abcdefgh'));
+    await a.dispose();
+
+    expect(readdirSync(dir).sort()).toEqual(['app.0.log.gz', 'app.1.log']);
+    expect(gunzipSync(readFileSync(join(dir, 'app.0.log.gz'))).toString()).toBe('12345678\n');
+  });
+
+  it('deletes rolled files older than maxAge and beyond maxTotalSize', async () => {
+    const old = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+    writeFileSync(join(dir, 'app.7.log'), 'stale\n');
+    utimesSync(join(dir, 'app.7.log'), old, old);
+
+    const a = new RollingFileAppender();
+    a.init(
+      {
+        name: 'rolling-file',
+        filename: join(dir, 'app.%i.log'),
+        maxSize: 1,
+        maxAge: 1,
+        maxTotalSize: 20,
+      },
+      formatter,
+    );
+    for (let i = 0; i < 4; i++) {
+      a.write(makeEvent(`line ${i}`));
+      await wait(20);
+    }
+    await a.dispose();
+
+    // Each rolled file is 7 bytes: only the two newest fit within 20 bytes
+    expect(readdirSync(dir).sort()).toEqual(['app.1.log', 'app.2.log', 'app.3.log']);
+  });
+
+  it('applies retention to files from earlier runs on startup', async () => {
+    const old = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+    writeFileSync(join(dir, 'app.5.log'), 'stale\n');
+    utimesSync(join(dir, 'app.5.log'), old, old);
+    writeFileSync(join(dir, 'app.6.log'), 'recent\n');
+
+    const a = new RollingFileAppender();
+    a.init({ name: 'rolling-file', filename: join(dir, 'app.%i.log'), maxAge: 1 }, formatter);
+    await a.dispose();
+
+    expect(readdirSync(dir).sort()).toEqual(['app.0.log', 'app.6.log']);
+  });
+});
+
+function formatDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, type MockInstance, vi } from 'vitest';
+
+import { LogM8 } from '../../src/LogM8.ts';
+
+describe('LogM8 shutdown hooks', () => {
+  let logm8: LogM8;
+  let exit: MockInstance<[code?: string | number | null], never>;
+
+  beforeEach(() => {
+    logm8 = new LogM8();
+    exit = vi.spyOn(process, 'exit').mockImplementation((() => {}) as never);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+  });
+  afterEach(async () => {
+    await logm8.dispose();
+    vi.restoreAllMocks();
+  });
+
+  it('does not register process listeners unless enabled', () => {
+    const before = process.listenerCount('SIGTERM');
+    logm8.init();
+    expect(process.listenerCount('SIGTERM')).toBe(before);
+  });
+
+  it('logs a final event, flushes and exits with the signal exit code on SIGTERM', async () => {
+    logm8.init({ shutdown: { logger: 'app.lifecycle' } });
+    process.emit('SIGTERM');
+
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(143));
+    expect(console.warn).toHaveBeenCalledTimes(1);
+    expect(String(vi.mocked(console.warn).mock.calls[0])).toContain('app.lifecycle');
+  });
+
+  it('logs on beforeExit without forcing an exit', async () => {
+    logm8.init({ shutdown: true });
+    process.emit('beforeExit', 0);
+    process.emit('beforeExit', 0);
+
+    await new Promise((res) => setTimeout(res, 10));
+    expect(console.info).toHaveBeenCalledTimes(1);
+    expect(exit).not.toHaveBeenCalled();
+  });
+
+  it('still exits on a signal after beforeExit', async () => {
+    logm8.init({ shutdown: true });
+    process.emit('beforeExit', 0);
+    process.emit('SIGTERM');
+
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(143));
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('exits immediately on a second signal while flushing', () => {
+    logm8.init({ shutdown: true });
+    process.emit('SIGINT');
+    expect(exit).not.toHaveBeenCalled();
+
+    process.emit('SIGINT');
+    expect(exit).toHaveBeenCalledWith(130);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('exits on an uncaught exception after beforeExit', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    logm8.init({ shutdown: true });
+    process.emit('beforeExit', 0);
+    // Vitest fails runs on emitted uncaught exceptions, so call the LogM8 listener directly
+    const listener = process.listeners('uncaughtException').at(-1)!;
+    listener(new Error('late'), 'uncaughtException');
+
+    await vi.waitFor(() => expect(exit).toHaveBeenCalledWith(1));
+  });
+
+  it('only registers the configured events and removes them on dispose', async () => {
+    const sigint = process.listenerCount('SIGINT');
+    const sigterm = process.listenerCount('SIGTERM');
+    logm8.init({ shutdown: { events: ['SIGINT'] } });
+    expect(process.listenerCount('SIGINT')).toBe(sigint + 1);
+    expect(process.listenerCount('SIGTERM')).toBe(sigterm);
+
+    await logm8.dispose();
+    expect(process.listenerCount('SIGINT')).toBe(sigint);
+  });
+});
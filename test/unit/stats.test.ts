@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { Appender } from '../../src/Appender.ts';
+import type { AppenderConfig } from '../../src/AppenderConfig.ts';
+import type { Filter } from '../../src/Filter.ts';
+import type { LogEvent } from '../../src/LogEvent.ts';
+import { LogLevel } from '../../src/LogLevel.ts';
+import { LogM8 } from '../../src/LogM8.ts';
+import type { PluginFactory } from '../../src/PluginFactory.ts';
+import { PluginKind } from '../../src/PluginKind.ts';
+
+class FilteringAppender implements Appender {
+  name = 'filtering';
+  version = '1.0.0';
+  kind = PluginKind.appender;
+  supportedLevels = new Set(Object.values(LogLevel));
+  enabled = true;
+  private _filters: Filter[] = [];
+  init(_config: AppenderConfig, _formatter?: unknown, filters?: Filter[]): void {
+    this._filters = filters ?? [];
+  }
+  dispose(): void {}
+  write(event: LogEvent): void {
+    if (this._filters.some((f) => f.enabled && !f.filter(event))) return;
+    if (event.message === 'boom') throw new Error('write failed');
+  }
+  flush(): void {}
+  enableFilter(): void {}
+  disableFilter(): void {}
+}
+
+class FilteringAppenderFactory implements PluginFactory {
+  name = 'filtering';
+  version = '1.0.0';
+  kind = PluginKind.appender;
+  create(config: AppenderConfig): Appender {
+    const appender = new FilteringAppender();
+    appender.init(config);
+    return appender;
+  }
+}
+
+describe('LogM8 getStats', () => {
+  let logm8: LogM8;
+
+  beforeEach(() => {
+    logm8 = new LogM8();
+    logm8.registerPluginFactory(new FilteringAppenderFactory());
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(async () => {
+    await logm8.dispose();
+    vi.restoreAllMocks();
+  });
+
+  it('counts created, filtered, denied, written and failed events', () => {
+    logm8.init({
+      level: LogLevel.debug,
+      filters: [{ name: 'match-filter', deny: { 'context.secret': true } }],
+      appenders: [
+        { name: 'filtering', filters: [{ name: 'match-filter', deny: { message: 'noisy' } }] },
+      ],
+    });
+    const logger = logm8.getLogger('app');
+
+    logger.info('ok');
+    logger.info('noisy');
+    logger.error('boom');
+    logger.trace('not created');
+    logger.child({ secret: true }).warn('hidden');
+
+    const stats = logm8.getStats();
+    expect(stats.total).toEqual({ created: 4, filtered: 1, denied: 1, written: 1, failed: 1 });
+    expect(stats.levels).toEqual({
+      info: { created: 2, filtered: 0, denied: 1, written: 1, failed: 0 },
+      error: { created: 1, filtered: 0, denied: 0, written: 0, failed: 1 },
+      warn: { created: 1, filtered: 1, denied: 0, written: 0, failed: 0 },
+    });
+    expect(stats.appenders.filtering.total).toEqual({ denied: 1, written: 1, failed: 1 });
+    expect(stats.appenders.filtering.levels.error).toEqual({ denied: 0, written: 0, failed: 1 });
+  });
+
+  it('counts events dropped from the pre-init buffer', () => {
+    const logger = logm8.getLogger('early');
+    for (let i = 0; i < 105; i++) logger.info(`event ${i}`);
+
+    expect(logm8.getStats().dropped).toBe(5);
+    expect(logm8.getStats().total.created).toBe(105);
+  });
+
+  it('keeps counting across reconfigure until reset', async () => {
+    logm8.init({ appenders: ['filtering'] });
+    logm8.getLogger('app').info('one');
+    await logm8.reconfigure({ level: LogLevel.debug });
+    logm8.getLogger('app').debug('two');
+
+    expect(logm8.getStats().appenders.filtering.total.written).toBe(2);
+
+    logm8.resetStats();
+    expect(logm8.getStats()).toEqual({
+      total: { created: 0, filtered: 0, denied: 0, written: 0, failed: 0 },
+      levels: {},
+      appenders: {},
+      dropped: 0,
+    });
+  });
+});
@@ -179,7 +179,7 @@ describe('Filter Usability Tests', () => {
     expect(filter.filter({} as LogEvent)).toBe(false);
   });
 
-  it('should integrate easily with LogM8', () => {
+  it('should integrate easily with LogM8', async () => {
     // Creating and using filters in LogM8 should be straightforward
     class EasyFilter implements Filter {
       name = 'easy';
@@ -228,7 +228,7 @@ describe('Filter Usability Tests', () => {
     logger.info('normal message'); // Should work
     logger.info('skip this message'); // Should be filtered
 
-    logM8.dispose();
+    await logM8.dispose();
   });
 
   it('should provide helpful defaults for common use cases', () => {
@@ -10,11 +10,11 @@ describe('Usability - zero config', () => {
     vi.restoreAllMocks();
   });
 
-  it('init() with no config logs to console by default', () => {
+  it('init() with no config logs to console by default', async () => {
     const m = new LogM8();
     m.init();
     m.getLogger('u').info('hello');
     expect(console.info).toHaveBeenCalled();
-    m.dispose();
+    await m.dispose();
   });
 });